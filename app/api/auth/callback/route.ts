@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createSession,
+  exchangeCode,
+  LoginState,
+  SESSION_COOKIE,
+  STATE_COOKIE,
+  verify,
+} from "../../auth";
+
+export async function GET(req: NextRequest) {
+  const code = req.nextUrl.searchParams.get("code");
+  const state = req.nextUrl.searchParams.get("state");
+  const login = await verify<LoginState>(req.cookies.get(STATE_COOKIE)?.value);
+
+  if (!code || !login || login.state !== state) {
+    console.error("[Auth] invalid callback", req.nextUrl.searchParams);
+    return NextResponse.json(
+      {
+        error: true,
+        msg:
+          req.nextUrl.searchParams.get("error_description") ?? "Login failed",
+      },
+      {
+        status: 400,
+      },
+    );
+  }
+
+  try {
+    const idToken = await exchangeCode(req, code, login.verifier);
+    const { session, cookie, maxAge } = await createSession(idToken);
+    console.log("[Auth] signed in", session.sub);
+
+    const res = NextResponse.redirect(new URL("/", req.url));
+    res.cookies.set(SESSION_COOKIE, cookie, {
+      httpOnly: true,
+      secure: req.nextUrl.protocol === "https:",
+      sameSite: "lax",
+      path: "/",
+      maxAge,
+    });
+    res.cookies.set(STATE_COOKIE, "", { path: "/api/auth", maxAge: 0 });
+    return res;
+  } catch (e) {
+    console.error("[Auth] callback failed", e);
+    return NextResponse.json(
+      {
+        error: true,
+        msg: (e as Error).message,
+      },
+      {
+        status: 401,
+      },
+    );
+  }
+}
+
+export const runtime = "edge";
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getAuthorizationUrl,
+  isOidcEnabled,
+  LoginState,
+  randomString,
+  sign,
+  STATE_COOKIE,
+} from "../../auth";
+
+// the sign-in has to be completed within this time
+const LOGIN_MAX_AGE = 10 * 60;
+
+export async function GET(req: NextRequest) {
+  if (!isOidcEnabled()) {
+    return NextResponse.redirect(new URL("/", req.url));
+  }
+
+  try {
+    const login: LoginState = {
+      state: randomString(),
+      verifier: randomString(),
+      exp: Math.floor(Date.now() / 1000) + LOGIN_MAX_AGE,
+    };
+    const res = NextResponse.redirect(await getAuthorizationUrl(req, login));
+    res.cookies.set(STATE_COOKIE, await sign(login), {
+      httpOnly: true,
+      secure: req.nextUrl.protocol === "https:",
+      sameSite: "lax",
+      path: "/api/auth",
+      maxAge: LOGIN_MAX_AGE,
+    });
+    return res;
+  } catch (e) {
+    console.error("[Auth] login failed", e);
+    return NextResponse.json(
+      {
+        error: true,
+        msg: (e as Error).message,
+      },
+      {
+        status: 500,
+      },
+    );
+  }
+}
+
+export const runtime = "edge";
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getOidcMetadata, isOidcEnabled, SESSION_COOKIE } from "../../auth";
+
+export async function GET(req: NextRequest) {
+  let redirectUrl = new URL("/", req.url).toString();
+
+  // also end the session at the identity provider when it supports that
+  if (isOidcEnabled()) {
+    try {
+      const { end_session_endpoint } = await getOidcMetadata();
+      if (end_session_endpoint) {
+        const url = new URL(end_session_endpoint);
+        url.searchParams.set("post_logout_redirect_uri", redirectUrl);
+        redirectUrl = url.toString();
+      }
+    } catch (e) {
+      console.error("[Auth] logout", e);
+    }
+  }
+
+  const res = NextResponse.redirect(redirectUrl);
+  res.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+  return res;
+}
+
+export const runtime = "edge";
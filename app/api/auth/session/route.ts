@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "../../auth";
+
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+
+  return NextResponse.json({
+    user: session ? { id: session.sub, name: session.name } : null,
+  });
+}
+
+export const runtime = "edge";
@@ -1,70 +1,239 @@
 import { createParser } from "eventsource-parser";
 import { NextRequest } from "next/server";
-import { requestOpenai } from "../common";
+import { MeteredUsage, requestOpenai } from "../common";
+import {
+  ContentFilterResults,
+  encodeEvent,
+  FILTER_CATEGORIES,
+  FILTER_SEVERITIES,
+  STREAM_CONTENT_TYPE,
+  StreamEvent,
+} from "../stream";
 
-async function createStream(req: NextRequest) {
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
+const HEARTBEAT_INTERVAL_MS = 10000;
+
+// keeps the categories shown in the chat, Azure also reports e.g. jailbreak
+function pickFilterResults(raw: any): ContentFilterResults | undefined {
+  const results: ContentFilterResults = {};
+  FILTER_CATEGORIES.forEach((category) => {
+    if (raw?.[category]) {
+      results[category] = {
+        filtered: !!raw[category].filtered,
+        severity: raw[category].severity ?? "safe",
+      };
+    }
+  });
+  return Object.keys(results).length > 0 ? results : undefined;
+}
 
-  const res = await requestOpenai(req);
+// the worst result of each category
+function mergeFilterResults(
+  a: ContentFilterResults = {},
+  b: ContentFilterResults,
+) {
+  const merged = { ...a };
+  FILTER_CATEGORIES.forEach((category) => {
+    const [x, y] = [a[category], b[category]];
+    if (!x || !y) {
+      merged[category] = x ?? y;
+      return;
+    }
+    merged[category] = {
+      filtered: x.filtered || y.filtered,
+      severity:
+        FILTER_SEVERITIES.indexOf(x.severity) >
+        FILTER_SEVERITIES.indexOf(y.severity)
+          ? x.severity
+          : y.severity,
+    };
+  });
+  return merged;
+}
 
-  const contentType = res.headers.get("Content-Type") ?? "";
-  if (!contentType.includes("stream")) {
-    const content = await (
-      await res.text()
-    ).replace(/provided:.*. You/, "provided: ***. You");
-    console.log("[Stream] error ", content);
-    return "```json\n" + content + "```";
+// Azure errors come as {"error":{"code","message"}}, the ones of the proxy as
+// {"code","msg"}, quota errors with their limit and retryAfter as well. A
+// blocked prompt carries the results of the content filter.
+async function toErrorEvents(res: Response): Promise<StreamEvent[]> {
+  const text = await res.text();
+  let body: any = {};
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = { msg: text };
   }
 
-  const stream = new ReadableStream({
+  const message: string = body.error?.message ?? body.msg ?? res.statusText;
+  const results = pickFilterResults(
+    body.error?.innererror?.content_filter_result,
+  );
+  const error: StreamEvent = {
+    type: "error",
+    code: String(body.error?.code ?? body.code ?? res.status),
+    status: res.status,
+    message: message.replace(/provided:.*. You/, "provided: ***. You"),
+    limit: body.limit,
+    retryAfter:
+      body.retryAfter ?? (Number(res.headers.get("retry-after")) || undefined),
+  };
+
+  return results
+    ? [{ type: "filter", source: "prompt", results }, error]
+    : [error];
+}
+
+function createStream(req: NextRequest) {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let heartbeatId: ReturnType<typeof setInterval> | undefined;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
     async start(controller) {
-      function onParse(event: any) {
-        if (event.type === "event") {
-          const data = event.data;
-          // https://beta.openai.com/docs/api-reference/completions/create#completions/create-stream
-          if (data === "[DONE]") {
-            controller.close();
-            return;
-          }
-          try {
-            const json = JSON.parse(data);
-            //For Azure OpenAI, no [Done] message is received. I don't know why...
-            //So need to check the finish_reason. If it is not null, it means the streaming is done.
-            if (json.choices[0].finish_reason != null) {
-              controller.close();
+      const send = (event: StreamEvent) =>
+        !closed && controller.enqueue(encoder.encode(encodeEvent(event)));
+
+      // the response starts right away, so waiting for the upstream or for a
+      // throttled endpoint to come back does not time out the client
+      heartbeatId = setInterval(
+        () => send({ type: "heartbeat" }),
+        HEARTBEAT_INTERVAL_MS,
+      );
+
+      try {
+        let usage = undefined as MeteredUsage | undefined;
+        const completionFilters: ContentFilterResults[] = [];
+        const res = await requestOpenai(req, (value) => (usage = value));
+
+        const contentType = res.headers.get("Content-Type") ?? "";
+        if (!res.ok || !res.body || !contentType.includes("stream")) {
+          const events = await toErrorEvents(res);
+          console.log("[Stream] error ", events);
+          events.forEach(send);
+        } else {
+          const parser = createParser((event) => {
+            // https://beta.openai.com/docs/api-reference/completions/create#completions/create-stream
+            if (event.type !== "event" || event.data === "[DONE]") {
               return;
             }
-            const text = json.choices[0].delta.content;
-            const queue = encoder.encode(text);
-            controller.enqueue(queue);
-          } catch (e) {
-            controller.error(e);
+            try {
+              const json = JSON.parse(event.data);
+              if (json.error) {
+                send({
+                  type: "error",
+                  code: String(json.error.code ?? "upstream_error"),
+                  message: json.error.message ?? "",
+                });
+                return;
+              }
+
+              // Azure starts with a chunk holding only the prompt filter results
+              (json.prompt_filter_results ?? json.prompt_annotations)?.forEach(
+                (prompt: any) => {
+                  const results = pickFilterResults(
+                    prompt.content_filter_results,
+                  );
+                  results &&
+                    send({ type: "filter", source: "prompt", results });
+                },
+              );
+
+              (json.choices ?? []).forEach((choice: any) => {
+                const index: number = choice.index ?? 0;
+                const results = pickFilterResults(
+                  choice.content_filter_results,
+                );
+                if (results) {
+                  completionFilters[index] = mergeFilterResults(
+                    completionFilters[index],
+                    results,
+                  );
+                }
+                const { role, content } = choice.delta ?? {};
+                if (role || content) {
+                  send({
+                    type: "delta",
+                    choice: index,
+                    role,
+                    content: content ?? "",
+                  });
+                }
+                choice.delta?.tool_calls?.forEach((call: any) =>
+                  send({
+                    type: "tool_call",
+                    choice: index,
+                    index: call.index ?? 0,
+                    id: call.id,
+                    name: call.function?.name,
+                    arguments: call.function?.arguments ?? "",
+                  }),
+                );
+                if (choice.finish_reason) {
+                  send({
+                    type: "finish",
+                    choice: index,
+                    reason: choice.finish_reason,
+                  });
+                }
+              });
+            } catch (e) {
+              console.error("[Stream] invalid chunk", event.data, e);
+            }
+          });
+
+          reader = res.body.getReader();
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+              break;
+            }
+            parser.feed(decoder.decode(value, { stream: true }));
+          }
+
+          // results may still arrive after the finish reason
+          completionFilters.forEach((results, choice) =>
+            send({ type: "filter", source: "completion", choice, results }),
+          );
+
+          // metered once the upstream body has been read to the end
+          if (usage) {
+            send({ type: "usage", ...usage });
           }
         }
+      } catch (e) {
+        console.error("[Chat Stream]", e);
+        send({
+          type: "error",
+          code: "internal_error",
+          message: e instanceof Error ? e.message : String(e),
+        });
       }
 
-      const parser = createParser(onParse);
-      for await (const chunk of res.body as any) {
-        parser.feed(decoder.decode(chunk));
+      clearInterval(heartbeatId);
+      if (!closed) {
+        closed = true;
+        controller.close();
       }
     },
+
+    cancel() {
+      // the client stopped reading, e.g. the user stopped the reply
+      closed = true;
+      clearInterval(heartbeatId);
+      reader?.cancel().catch(() => {});
+    },
   });
-  return stream;
 }
 
 export async function POST(req: NextRequest) {
-  try {
-    const stream = await createStream(req);
-    return new Response(stream);
-  } catch (error) {
-    console.error("[Chat Stream]", error);
-    return new Response(
-      ["```json\n", JSON.stringify(error, null, "  "), "\n```"].join(""),
-    );
-  }
+  return new Response(createStream(req), {
+    headers: {
+      "Content-Type": STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache",
+    },
+  });
 }
 
-export const config = {
-  runtime: "edge",
-};
+// the proxy reads the federated token and the usage file from disk, so the
+// stream runs on the Node.js runtime
+export const runtime = "nodejs";
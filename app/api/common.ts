@@ -1,42 +1,254 @@
-import { NextRequest } from "next/server";
+import { createParser } from "eventsource-parser";
+import { NextRequest, NextResponse } from "next/server";
+import { DEPLOYMENTS, findDeployment, getCost } from "./deployments";
+import { fetchWithFailover } from "./failover";
+import { getAuthHeaders } from "./credentials";
+import { USER_ID_HEADER } from "./auth";
+import { checkQuota, consumeQuota } from "./quota";
+import { recordUsage } from "./usage";
+import { API_VERSIONS, getOperation, Operation } from "./operations";
+import { sanitizeChatRequest } from "./parameters";
+import { countMessagesTokens, countTokens } from "../tokenizer";
 
-// const OPENAI_URL = "api.openai.com";
-const DEFAULT_PROTOCOL = "https";
-const PROTOCOL = DEFAULT_PROTOCOL;
-// const BASE_URL = process.env.BASE_URL ?? OPENAI_URL;
+export interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number; // not reported for embeddings
+}
+
+// estimated before the request is sent, for the daily token quota
+function countPromptTokens(operation: Operation, json: any, model: string) {
+  const countInputs = (input: unknown) =>
+    [input]
+      .flat()
+      .reduce<number>(
+        (sum, v) =>
+          sum +
+          (typeof v === "string"
+            ? countTokens(v, model)
+            : Array.isArray(v)
+            ? v.length
+            : 0),
+        0,
+      );
+
+  switch (operation) {
+    case "chat/completions":
+      return countMessagesTokens(json.messages ?? [], model);
+    case "completions":
+      return countInputs(json.prompt);
+    case "embeddings":
+      return countInputs(json.input);
+    default:
+      return 0;
+  }
+}
 
-//for Azure Open AI Service
-const AZURE_OPENAI_API_BASE = process.env.AZURE_OPENAI_API_BASE;
-const AZURE_OPENAI_DEPLOYMENT_NAME = process.env.AZURE_OPENAI_DEPLOYMENT_NAME;
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const AZURE_OPENAI_PATH = "chat/completions?api-version=2023-03-15-preview";
+// Passes the body through untouched and reports the usage once all of it has
+// been read, from `usage` of json responses or counted from streamed deltas.
+// A body cancelled or failed midway is reported with what was read of it,
+// Azure bills the tokens generated until then.
+export function meterResponse(
+  res: Response,
+  model: string,
+  onDone: (usage: CompletionUsage) => void,
+) {
+  if (!res.ok || !res.body) {
+    return res;
+  }
 
-export async function requestOpenai(req: NextRequest) {
+  const isStream = (res.headers.get("Content-Type") ?? "").includes("stream");
+  const decoder = new TextDecoder();
+  const reader = res.body.getReader();
+  let text = "";
+  let usage: CompletionUsage | undefined;
+  let reported = false;
+
+  const parser = createParser((event) => {
+    if (event.type !== "event" || event.data === "[DONE]") {
+      return;
+    }
+    try {
+      const json = JSON.parse(event.data);
+      json.choices?.forEach(
+        (choice: any) => (text += choice.delta?.content ?? choice.text ?? ""),
+      );
+      usage = json.usage ?? usage;
+    } catch {}
+  });
+
+  const report = () => {
+    if (reported) {
+      return;
+    }
+    reported = true;
+    try {
+      if (!isStream) {
+        // nothing to count in e.g. images, json replies come with usage
+        try {
+          usage = JSON.parse(text).usage ?? { completion_tokens: 0 };
+        } catch {}
+      }
+      onDone(usage ?? { completion_tokens: countTokens(text, model) });
+    } catch (e) {
+      console.error("[Proxy] failed to meter response", e);
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          report();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+        const decoded = decoder.decode(value, { stream: true });
+        isStream ? parser.feed(decoded) : (text += decoded);
+      } catch (e) {
+        report();
+        controller.error(e);
+      }
+    },
+    cancel(reason) {
+      // e.g. the user stopped the reply
+      report();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: res.status,
+    statusText: res.statusText,
+    headers: res.headers,
+  });
+}
+
+export interface MeteredUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost: number; // USD
+}
+
+export async function requestOpenai(
+  req: NextRequest,
+  onUsage?: (usage: MeteredUsage) => void,
+) {
   //ONLY get API key from environemnt variable
   //const apiKey = req.headers.get("token");
 
-  // const openaiPath = req.headers.get("path");
-  //For Azure Open AI Service, the path is predefined
+  //For Azure Open AI Service, the OpenAI path maps to an operation of the deployment
   //Check Azure doc for more details:
-  //https://learn.microsoft.com/en-us/azure/cognitive-services/openai/chatgpt-quickstart?tabs=command-line&pivots=rest-api
+  //https://learn.microsoft.com/en-us/azure/cognitive-services/openai/reference
+  const openaiPath = req.headers.get("path");
+  const operation = getOperation(openaiPath);
+  if (!operation) {
+    console.error("[Proxy] path not allowed", openaiPath);
+    return NextResponse.json(
+      {
+        error: true,
+        msg: `Path "${openaiPath}" is not allowed`,
+      },
+      {
+        status: 403,
+      },
+    );
+  }
 
-  // console.log("[Proxy] ", openaiPath);
-  console.log(
-    "[Proxy] ",
-    `${AZURE_OPENAI_API_BASE}/openai/deployments/${AZURE_OPENAI_DEPLOYMENT_NAME}/${AZURE_OPENAI_PATH}`,
-  );
+  const body = await req.text();
+  const userId = req.headers.get(USER_ID_HEADER) ?? "anonymous";
+  let json: any = {};
+  try {
+    json = JSON.parse(body);
+  } catch {}
+  const model: string | undefined = json.model;
+
+  // route the request to the deployment serving the requested model
+  const deployment = findDeployment(model);
+  if (!deployment) {
+    console.error("[Proxy] no deployment for model", model);
+    return NextResponse.json(
+      {
+        error: true,
+        msg: `Model "${model ?? ""}" is not available, available models: ${
+          [...DEPLOYMENTS.keys()].join(", ") || "none"
+        }`,
+      },
+      {
+        status: 400,
+      },
+    );
+  }
+
+  const promptTokens = countPromptTokens(operation, json, deployment.model);
+  const exceeded = await checkQuota(userId, promptTokens);
+  if (exceeded) {
+    console.warn("[Proxy] quota exceeded", userId, exceeded.limit);
+    return NextResponse.json(
+      {
+        error: true,
+        code: "quota_exceeded",
+        ...exceeded,
+        msg: `Quota exceeded: ${exceeded.limit}`,
+      },
+      {
+        status: 429,
+        headers: { "Retry-After": `${exceeded.retryAfter}` },
+      },
+    );
+  }
+
+  const apiVersion = deployment.apiVersion ?? API_VERSIONS[operation];
+  const forwardBody =
+    operation === "chat/completions" && json.messages
+      ? JSON.stringify(sanitizeChatRequest(json, deployment, apiVersion))
+      : body;
 
-  return fetch(
-    `${AZURE_OPENAI_API_BASE}/openai/deployments/${AZURE_OPENAI_DEPLOYMENT_NAME}/${AZURE_OPENAI_PATH}`,
-    {
-      headers: {
-        "Content-Type": "application/json",
-        // Authorization: `Bearer ${apiKey}`,
-        // A bit different here than the OpenAI API
-        "api-key": `${OPENAI_API_KEY}`,
-      },
-      method: req.method,
-      body: req.body,
+  let authHeaders: Awaited<ReturnType<typeof getAuthHeaders>>;
+  try {
+    authHeaders = await getAuthHeaders();
+  } catch (e) {
+    console.error("[Proxy] no credentials for the upstream", e);
+    return NextResponse.json(
+      {
+        error: true,
+        code: "credentials_error",
+        msg: "Failed to authenticate against Azure OpenAI",
+      },
+      {
+        status: 500,
+      },
+    );
+  }
+
+  // try the regional endpoints of the deployment in turn on 429/5xx
+  const res = await fetchWithFailover(
+    deployment.endpoints,
+    async (endpoint) => {
+      const url = `${endpoint.apiBase}/openai/deployments/${endpoint.deployment}/${operation}?api-version=${apiVersion}`;
+      console.log("[Proxy] ", url);
+
+      return fetch(url, {
+        headers: {
+          "Content-Type": "application/json",
+          // api-key or Authorization: Bearer, see AZURE_OPENAI_AUTH_MODE
+          ...authHeaders(endpoint),
+        },
+        method: req.method,
+        body: forwardBody,
+      });
     },
   );
+
+  return meterResponse(res, deployment.model, (usage) => {
+    const prompt = usage.prompt_tokens ?? promptTokens;
+    const completion = usage.completion_tokens ?? 0;
+    const cost = getCost(deployment, prompt, completion);
+    recordUsage(userId, deployment.model, prompt, completion, cost);
+    onUsage?.({ prompt_tokens: prompt, completion_tokens: completion, cost });
+    consumeQuota(userId, prompt + completion, cost).catch((e) =>
+      console.error("[Quota] ", e),
+    );
+  });
 }
@@ -0,0 +1,127 @@
+import { readFile } from "fs/promises";
+import type { Endpoint } from "./deployments";
+
+// How the proxy authenticates against Azure OpenAI, set with
+// AZURE_OPENAI_AUTH_MODE:
+// - api-key: the static key of each endpoint in the api-key header (default)
+// - client-credentials: a service principal secret (AZURE_CLIENT_SECRET)
+// - workload-identity: the federated token in AZURE_FEDERATED_TOKEN_FILE,
+//   as projected into the pod by AKS workload identity
+// Both token modes send an Entra ID access token as Authorization: Bearer.
+export type AuthMode = "api-key" | "client-credentials" | "workload-identity";
+
+const AUTH_MODE = (process.env.AZURE_OPENAI_AUTH_MODE ?? "api-key") as AuthMode;
+
+const TENANT_ID = process.env.AZURE_TENANT_ID;
+const CLIENT_ID = process.env.AZURE_CLIENT_ID;
+const CLIENT_SECRET = process.env.AZURE_CLIENT_SECRET;
+const FEDERATED_TOKEN_FILE = process.env.AZURE_FEDERATED_TOKEN_FILE;
+const AUTHORITY_HOST = (
+  process.env.AZURE_AUTHORITY_HOST ?? "https://login.microsoftonline.com"
+).replace(/\/$/, "");
+// can point to a local stand-in of the token endpoint for testing
+const TOKEN_ENDPOINT =
+  process.env.AZURE_AD_TOKEN_ENDPOINT ??
+  `${AUTHORITY_HOST}/${TENANT_ID}/oauth2/v2.0/token`;
+const TOKEN_SCOPE =
+  process.env.AZURE_OPENAI_TOKEN_SCOPE ??
+  "https://cognitiveservices.azure.com/.default";
+
+// refresh the cached token this long before it expires
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+interface AccessToken {
+  token: string;
+  expiresAt: number;
+}
+
+let cachedToken: AccessToken | undefined;
+let pendingToken: Promise<AccessToken> | undefined;
+
+async function getClientAssertion(): Promise<Record<string, string>> {
+  if (AUTH_MODE === "client-credentials") {
+    if (!CLIENT_SECRET) {
+      throw Error("[Credentials] AZURE_CLIENT_SECRET is not set");
+    }
+    return { client_secret: CLIENT_SECRET };
+  }
+
+  if (!FEDERATED_TOKEN_FILE) {
+    throw Error("[Credentials] AZURE_FEDERATED_TOKEN_FILE is not set");
+  }
+  // the projected token is rotated on disk, so read it on every refresh
+  const assertion = (await readFile(FEDERATED_TOKEN_FILE, "utf-8")).trim();
+  return {
+    client_assertion_type:
+      "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+    client_assertion: assertion,
+  };
+}
+
+async function requestAccessToken(): Promise<AccessToken> {
+  if (!CLIENT_ID) {
+    throw Error("[Credentials] AZURE_CLIENT_ID is not set");
+  }
+
+  const res = await fetch(TOKEN_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: CLIENT_ID,
+      scope: TOKEN_SCOPE,
+      ...(await getClientAssertion()),
+    }),
+  });
+
+  const json = await res.json();
+  if (!res.ok || !json.access_token) {
+    throw Error(
+      `[Credentials] token request failed with ${res.status}: ${
+        json.error_description ?? json.error ?? "no access token"
+      }`,
+    );
+  }
+
+  console.log("[Credentials] acquired access token");
+  return {
+    token: json.access_token,
+    expiresAt: Date.now() + Number(json.expires_in ?? 3600) * 1000,
+  };
+}
+
+export async function getAccessToken() {
+  if (cachedToken && cachedToken.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cachedToken.token;
+  }
+
+  // share one token request between concurrent callers
+  if (!pendingToken) {
+    pendingToken = requestAccessToken()
+      .then((token) => (cachedToken = token))
+      .finally(() => (pendingToken = undefined));
+  }
+
+  return (await pendingToken).token;
+}
+
+// Resolved once per request before the endpoints are tried, a failed token
+// request is no failure of the endpoints and must not open their breakers.
+export async function getAuthHeaders(): Promise<
+  (endpoint: Endpoint) => Record<string, string>
+> {
+  switch (AUTH_MODE) {
+    case "api-key":
+      // A bit different here than the OpenAI API
+      return (endpoint) => ({ "api-key": endpoint.apiKey });
+    case "client-credentials":
+    case "workload-identity": {
+      const token = await getAccessToken();
+      return () => ({ Authorization: `Bearer ${token}` });
+    }
+    default:
+      throw Error(`[Credentials] unknown auth mode: ${AUTH_MODE}`);
+  }
+}
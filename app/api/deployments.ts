@@ -0,0 +1,238 @@
+// Server-side registry of Azure OpenAI deployments, keyed by model name.
+//
+// Configure with AZURE_OPENAI_DEPLOYMENTS as a JSON array, e.g.
+// [{"model":"gpt-4","deployment":"gpt4"},{"model":"gpt-3.5-turbo","deployment":"chat","apiBase":"https://other.openai.azure.com"}]
+// apiBase and apiKey fall back to AZURE_OPENAI_API_BASE and OPENAI_API_KEY,
+// apiVersion to the one of the operation (see operations.ts); displayName,
+// contextWindow and maxTokens fall back to the known limits of the model in
+// MODEL_LIMITS, vision to whether the model is in VISION_MODELS, prices
+// ({"prompt":0.03,"completion":0.06} in USD per 1K tokens) to the list prices
+// in MODEL_PRICES. unsupportedParameters lists request parameters the
+// deployment rejects, they are dropped before forwarding (see parameters.ts).
+//
+// A deployment may list several regional endpoints to fail over between,
+// [{"model":"gpt-4","deployment":"gpt4","endpoints":[{"apiBase":"https://eastus...","apiKey":"..."},{"apiBase":"https://westeurope...","apiKey":"...","deployment":"gpt4-we"}]}]
+// and AZURE_OPENAI_ENDPOINTS sets the pool used by deployments without one.
+//
+// Without AZURE_OPENAI_DEPLOYMENTS, the legacy AZURE_OPENAI_DEPLOYMENT_NAME
+// is registered under AZURE_OPENAI_MODEL (gpt-3.5-turbo by default).
+
+export interface ModelInfo {
+  name: string;
+  displayName: string;
+  contextWindow: number; // prompt and completion tokens
+  maxTokens: number; // completion tokens
+  vision: boolean; // accepts images in messages
+}
+
+export interface Endpoint {
+  apiBase: string;
+  apiKey: string;
+  deployment: string;
+  weight?: number; // endpoints are tried in listed order unless weighted
+}
+
+export interface Deployment {
+  model: string;
+  deployment: string;
+  apiVersion?: string;
+  displayName: string;
+  contextWindow: number;
+  maxTokens: number;
+  vision: boolean;
+  prices: ModelPrices;
+  endpoints: Endpoint[];
+  unsupportedParameters?: string[];
+}
+
+export interface ModelPrices {
+  prompt: number; // USD per 1K tokens
+  completion: number;
+}
+
+// ordered so that the first matching prefix is the most specific one
+const MODEL_LIMITS: [string, Pick<ModelInfo, "contextWindow" | "maxTokens">][] =
+  [
+    ["gpt-4o", { contextWindow: 128000, maxTokens: 4096 }],
+    ["gpt-4-1106", { contextWindow: 128000, maxTokens: 4096 }],
+    ["gpt-4-turbo", { contextWindow: 128000, maxTokens: 4096 }],
+    ["gpt-4-vision", { contextWindow: 128000, maxTokens: 4096 }],
+    ["gpt-4-32k", { contextWindow: 32768, maxTokens: 32768 }],
+    ["gpt-4", { contextWindow: 8192, maxTokens: 8192 }],
+    ["gpt-3.5-turbo-16k", { contextWindow: 16384, maxTokens: 16384 }],
+    ["gpt-35-turbo-16k", { contextWindow: 16384, maxTokens: 16384 }],
+    ["gpt-3.5-turbo", { contextWindow: 4096, maxTokens: 4096 }],
+    ["gpt-35-turbo", { contextWindow: 4096, maxTokens: 4096 }],
+  ];
+
+function getModelLimits(model: string) {
+  return (
+    MODEL_LIMITS.find(([prefix]) => model.startsWith(prefix))?.[1] ?? {
+      contextWindow: 4096,
+      maxTokens: 4096,
+    }
+  );
+}
+
+const MODEL_PRICES: [string, ModelPrices][] = [
+  ["gpt-4o", { prompt: 0.005, completion: 0.015 }],
+  ["gpt-4-1106", { prompt: 0.01, completion: 0.03 }],
+  ["gpt-4-turbo", { prompt: 0.01, completion: 0.03 }],
+  ["gpt-4-vision", { prompt: 0.01, completion: 0.03 }],
+  ["gpt-4-32k", { prompt: 0.06, completion: 0.12 }],
+  ["gpt-4", { prompt: 0.03, completion: 0.06 }],
+  ["gpt-3.5-turbo-16k", { prompt: 0.003, completion: 0.004 }],
+  ["gpt-35-turbo-16k", { prompt: 0.003, completion: 0.004 }],
+  ["gpt-3.5-turbo", { prompt: 0.0015, completion: 0.002 }],
+  ["gpt-35-turbo", { prompt: 0.0015, completion: 0.002 }],
+  ["text-embedding-3-small", { prompt: 0.00002, completion: 0 }],
+  ["text-embedding-3-large", { prompt: 0.00013, completion: 0 }],
+  ["text-embedding-ada-002", { prompt: 0.0001, completion: 0 }],
+];
+
+const VISION_MODELS = ["gpt-4o", "gpt-4-vision", "gpt-4-turbo"];
+
+// deployments of these models are proxied but not offered for chatting
+const NON_CHAT_MODELS = [
+  "text-embedding",
+  "dall-e",
+  "gpt-35-turbo-instruct",
+  "gpt-3.5-turbo-instruct",
+  "davinci",
+  "babbage",
+];
+
+function getModelPrices(model: string) {
+  return (
+    MODEL_PRICES.find(([prefix]) => model.startsWith(prefix))?.[1] ?? {
+      prompt: 0,
+      completion: 0,
+    }
+  );
+}
+
+type EndpointConfig = Partial<Endpoint> & {
+  apiBase: string;
+};
+
+type DeploymentConfig = Partial<Omit<Deployment, "endpoints">> & {
+  model: string;
+  deployment: string;
+  apiBase?: string;
+  apiKey?: string;
+  endpoints?: EndpointConfig[];
+};
+
+function parseJsonList(name: string): any[] | undefined {
+  const raw = process.env[name];
+  if (!raw) {
+    return;
+  }
+
+  try {
+    const list = JSON.parse(raw);
+    if (Array.isArray(list)) {
+      return list;
+    }
+    console.error(`[Deployments] ${name} is not an array`);
+  } catch (e) {
+    console.error(`[Deployments] failed to parse ${name}`, e);
+  }
+  return [];
+}
+
+function parseDeployments(): DeploymentConfig[] {
+  const list = parseJsonList("AZURE_OPENAI_DEPLOYMENTS");
+
+  if (list) {
+    return list.filter((v) => !!v?.model && !!v?.deployment);
+  }
+
+  const deployment = process.env.AZURE_OPENAI_DEPLOYMENT_NAME;
+  if (!deployment) {
+    return [];
+  }
+
+  return [
+    {
+      model: process.env.AZURE_OPENAI_MODEL ?? "gpt-3.5-turbo",
+      deployment,
+    },
+  ];
+}
+
+function getDefaultEndpoints(): EndpointConfig[] {
+  const list = parseJsonList("AZURE_OPENAI_ENDPOINTS");
+
+  return (
+    list?.filter((v) => !!v?.apiBase) ?? [
+      {
+        apiBase: process.env.AZURE_OPENAI_API_BASE ?? "",
+      },
+    ]
+  );
+}
+
+export function getDeployments(): Map<string, Deployment> {
+  const deployments = new Map<string, Deployment>();
+  const defaultEndpoints = getDefaultEndpoints();
+
+  for (const { apiBase, apiKey, endpoints, ...config } of parseDeployments()) {
+    const pool = endpoints ?? (apiBase ? [{ apiBase }] : defaultEndpoints);
+
+    deployments.set(config.model, {
+      displayName: config.model,
+      ...getModelLimits(config.model),
+      vision: VISION_MODELS.some((prefix) => config.model.startsWith(prefix)),
+      prices: getModelPrices(config.model),
+      ...config,
+      endpoints: pool.map((endpoint) => ({
+        apiKey: apiKey ?? process.env.OPENAI_API_KEY ?? "",
+        deployment: config.deployment,
+        ...endpoint,
+      })),
+    });
+  }
+
+  return deployments;
+}
+
+export const DEPLOYMENTS = getDeployments();
+
+export function findDeployment(model?: string) {
+  return model ? DEPLOYMENTS.get(model) : undefined;
+}
+
+export function getModelInfos(): ModelInfo[] {
+  const isChatModel = (model: string) =>
+    !NON_CHAT_MODELS.some((prefix) => model.startsWith(prefix));
+
+  return [...DEPLOYMENTS.values()]
+    .filter((d) => isChatModel(d.model))
+    .map((d) => ({
+      name: d.model,
+      displayName: d.displayName,
+      contextWindow: d.contextWindow,
+      maxTokens: d.maxTokens,
+      vision: d.vision,
+    }));
+}
+
+// models the knowledge bases can be embedded with
+export function getEmbeddingModels() {
+  return [...DEPLOYMENTS.keys()].filter((model) =>
+    model.startsWith("text-embedding"),
+  );
+}
+
+export function getCost(
+  deployment: Deployment,
+  promptTokens: number,
+  completionTokens: number,
+) {
+  return (
+    (promptTokens * deployment.prices.prompt +
+      completionTokens * deployment.prices.completion) /
+    1000
+  );
+}
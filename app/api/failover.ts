@@ -0,0 +1,168 @@
+import type { Endpoint } from "./deployments";
+
+// Circuit breaker state per endpoint, kept in memory of the server instance.
+// An endpoint is skipped while its breaker is open, i.e. after it answered
+// 429/5xx with retry-after (for that long) or failed BREAKER_THRESHOLD times
+// in a row without one (for BREAKER_COOLDOWN seconds).
+const BREAKER_THRESHOLD = Number(
+  process.env.AZURE_OPENAI_BREAKER_THRESHOLD ?? 3,
+);
+const BREAKER_COOLDOWN_MS =
+  Number(process.env.AZURE_OPENAI_BREAKER_COOLDOWN ?? 30) * 1000;
+
+// when every endpoint is throttled, wait in place for retry-after up to this
+const MAX_RETRY_WAIT_MS =
+  Number(process.env.AZURE_OPENAI_MAX_RETRY_WAIT ?? 10) * 1000;
+
+interface EndpointHealth {
+  failures: number;
+  openUntil: number;
+}
+
+const health = new Map<string, EndpointHealth>();
+
+function endpointKey(endpoint: Endpoint) {
+  return `${endpoint.apiBase}/${endpoint.deployment}`;
+}
+
+function getHealth(endpoint: Endpoint) {
+  const key = endpointKey(endpoint);
+  let state = health.get(key);
+  if (!state) {
+    state = { failures: 0, openUntil: 0 };
+    health.set(key, state);
+  }
+  return state;
+}
+
+function markSuccess(endpoint: Endpoint) {
+  const state = getHealth(endpoint);
+  state.failures = 0;
+  state.openUntil = 0;
+}
+
+function markFailure(endpoint: Endpoint, retryAfterMs?: number) {
+  const state = getHealth(endpoint);
+  state.failures += 1;
+
+  if (retryAfterMs !== undefined) {
+    state.openUntil = Date.now() + retryAfterMs;
+  } else if (state.failures >= BREAKER_THRESHOLD) {
+    state.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+  }
+
+  if (state.openUntil > Date.now()) {
+    console.warn(
+      "[Failover] endpoint unhealthy until",
+      new Date(state.openUntil).toISOString(),
+      endpoint.apiBase,
+    );
+  }
+}
+
+export function shouldFailover(status: number) {
+  return status === 429 || status >= 500;
+}
+
+// retry-after is either seconds or an http date
+export function getRetryAfterMs(res: Response) {
+  const value =
+    res.headers.get("retry-after-ms") ?? res.headers.get("retry-after");
+  if (!value) {
+    return;
+  }
+
+  if (res.headers.has("retry-after-ms")) {
+    return Number(value);
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// healthy endpoints first, shuffled by weight when any endpoint has one,
+// then the unhealthy ones by the time their breaker closes again
+export function orderEndpoints(endpoints: Endpoint[]) {
+  const now = Date.now();
+  const healthy = endpoints.filter((e) => getHealth(e).openUntil <= now);
+  const unhealthy = endpoints
+    .filter((e) => getHealth(e).openUntil > now)
+    .sort((a, b) => getHealth(a).openUntil - getHealth(b).openUntil);
+
+  if (healthy.some((e) => e.weight !== undefined)) {
+    // weighted random order: sort by random^(1 / weight) descending
+    const keyed = healthy.map((e) => ({
+      endpoint: e,
+      key: Math.pow(Math.random(), 1 / Math.max(e.weight ?? 1, 0.0001)),
+    }));
+    keyed.sort((a, b) => b.key - a.key);
+    return keyed.map((v) => v.endpoint).concat(unhealthy);
+  }
+
+  return healthy.concat(unhealthy);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Sends the request to each endpoint in turn until one answers with a status
+// that is not 429 or 5xx. Only the response headers are awaited, so the body
+// of the returned response has not been read by anyone yet.
+export async function fetchWithFailover(
+  endpoints: Endpoint[],
+  request: (endpoint: Endpoint) => Promise<Response>,
+): Promise<Response> {
+  let lastResponse: Response | undefined;
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    let minRetryAfterMs = Infinity;
+
+    for (const endpoint of orderEndpoints(endpoints)) {
+      try {
+        const res = await request(endpoint);
+
+        if (!shouldFailover(res.status)) {
+          markSuccess(endpoint);
+          return res;
+        }
+
+        const retryAfterMs = getRetryAfterMs(res);
+        minRetryAfterMs = Math.min(minRetryAfterMs, retryAfterMs ?? Infinity);
+        markFailure(endpoint, retryAfterMs);
+        console.warn("[Failover] ", res.status, endpoint.apiBase);
+
+        // keep the last failed response to forward it if nothing succeeds
+        lastResponse?.body?.cancel();
+        lastResponse = res;
+      } catch (e) {
+        console.warn("[Failover] ", endpoint.apiBase, e);
+        markFailure(endpoint);
+        lastError = e;
+      }
+    }
+
+    // every endpoint is throttled, honour the shortest retry-after once
+    if (lastResponse?.status !== 429 || minRetryAfterMs > MAX_RETRY_WAIT_MS) {
+      break;
+    }
+    console.log(
+      "[Failover] all endpoints throttled, retry after",
+      minRetryAfterMs,
+    );
+    lastResponse.body?.cancel();
+    lastResponse = undefined;
+    await sleep(minRetryAfterMs);
+  }
+
+  if (lastResponse) {
+    return lastResponse;
+  }
+  throw lastError;
+}
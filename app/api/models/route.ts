@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { getEmbeddingModels, getModelInfos } from "../deployments";
+
+export async function GET() {
+  return NextResponse.json({
+    models: getModelInfos(),
+    embeddingModels: getEmbeddingModels(),
+  });
+}
+
+// the catalogue depends on runtime environment variables
+export const dynamic = "force-dynamic";
@@ -4,7 +4,7 @@ import { requestOpenai } from "../common";
 async function makeRequest(req: NextRequest) {
   try {
     const api = await requestOpenai(req);
-    const res = new NextResponse(api.body);
+    const res = new NextResponse(api.body, { status: api.status });
     res.headers.set("Content-Type", "application/json");
     res.headers.set("Cache-Control", "no-cache");
     return res;
@@ -29,3 +29,6 @@ export async function POST(req: NextRequest) {
 export async function GET(req: NextRequest) {
   return makeRequest(req);
 }
+
+// records the usage to the file at USAGE_FILE, see chat-stream
+export const runtime = "nodejs";
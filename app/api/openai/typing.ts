@@ -1,7 +1,52 @@
 import type {
+  ChatCompletionRequestMessage,
   CreateChatCompletionRequest,
   CreateChatCompletionResponse,
 } from "openai";
 
-export type ChatRequest = CreateChatCompletionRequest;
+// tools are newer than the typings of the openai package
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: object; // JSON schema
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string; // JSON, as generated by the model
+  };
+}
+
+// content of vision requests, images are sent as data urls
+export type ContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "image_url";
+      image_url: { url: string; detail?: "low" | "high" | "auto" };
+    };
+
+export type MessageContent = string | ContentPart[];
+
+export type ChatRequestMessage = Omit<
+  ChatCompletionRequestMessage,
+  "role" | "content"
+> & {
+  role: ChatCompletionRequestMessage["role"] | "tool";
+  content: MessageContent | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+};
+
+export type ChatRequest = Omit<CreateChatCompletionRequest, "messages"> & {
+  messages: ChatRequestMessage[];
+  tools?: ToolDefinition[];
+  seed?: number;
+  response_format?: { type: "text" | "json_object" };
+};
 export type ChatReponse = CreateChatCompletionResponse;
@@ -0,0 +1,51 @@
+// The OpenAI paths the proxy forwards, sent by the client in the `path`
+// header, and the Azure operation under /openai/deployments/<deployment>/
+// each of them maps to. Any other path is rejected.
+//
+// The api-version of each operation can be set with AZURE_OPENAI_API_VERSIONS,
+// e.g. {"chat/completions":"2024-02-01","images/generations":"2024-02-01"},
+// the apiVersion of a deployment in AZURE_OPENAI_DEPLOYMENTS takes precedence.
+
+export type Operation =
+  | "chat/completions"
+  | "completions"
+  | "embeddings"
+  | "images/generations";
+
+export const DEFAULT_PATH = "v1/chat/completions";
+
+const OPERATIONS = new Map<string, Operation>([
+  ["v1/chat/completions", "chat/completions"],
+  ["v1/completions", "completions"],
+  ["v1/embeddings", "embeddings"],
+  ["v1/images/generations", "images/generations"],
+]);
+
+export const DEFAULT_API_VERSION = "2023-03-15-preview";
+
+const DEFAULT_API_VERSIONS: Record<Operation, string> = {
+  "chat/completions": DEFAULT_API_VERSION,
+  completions: DEFAULT_API_VERSION,
+  embeddings: DEFAULT_API_VERSION,
+  // dall-e-3 is only served by newer versions
+  "images/generations": "2023-12-01-preview",
+};
+
+function getApiVersions(): Record<Operation, string> {
+  try {
+    return {
+      ...DEFAULT_API_VERSIONS,
+      ...JSON.parse(process.env.AZURE_OPENAI_API_VERSIONS ?? "{}"),
+    };
+  } catch (e) {
+    console.error("[Operations] failed to parse AZURE_OPENAI_API_VERSIONS", e);
+    return DEFAULT_API_VERSIONS;
+  }
+}
+
+export const API_VERSIONS = getApiVersions();
+
+export function getOperation(path: string | null) {
+  const normalized = (path ?? DEFAULT_PATH).split("?")[0].replace(/^\/+/, "");
+  return OPERATIONS.get(normalized);
+}
@@ -0,0 +1,174 @@
+import type { Deployment } from "./deployments";
+
+// Sampling parameters of chat completions are checked against the deployment
+// before the request is forwarded. Values out of range are clamped and the
+// parameters the deployment does not take are dropped, so that settings made
+// for one model do not fail the requests sent to another.
+
+const RANGES: Record<string, [number, number]> = {
+  temperature: [0, 2],
+  top_p: [0, 1],
+  presence_penalty: [-2, 2],
+  frequency_penalty: [-2, 2],
+  n: [1, 128],
+};
+
+export const MAX_STOP_SEQUENCES = 4;
+export const LOGIT_BIAS_RANGE = 100;
+
+// older api-versions reject the request when these are set
+const MIN_API_VERSIONS: Record<string, string> = {
+  seed: "2023-12-01-preview",
+  response_format: "2023-12-01-preview",
+  tools: "2023-12-01-preview",
+  tool_choice: "2023-12-01-preview",
+};
+// the content of messages as a list of text and images, i.e. vision
+const MIN_CONTENT_PARTS_API_VERSION = "2023-12-01-preview";
+
+// models that answer in JSON mode, response_format is dropped for the others
+const JSON_MODE_MODELS = [
+  "gpt-4o",
+  "gpt-4-turbo",
+  "gpt-4-1106",
+  "gpt-4-0125",
+  "gpt-35-turbo-1106",
+  "gpt-35-turbo-0125",
+  "gpt-3.5-turbo-1106",
+  "gpt-3.5-turbo-0125",
+];
+
+function clamp(x: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, x));
+}
+
+// api-versions are dates, with a -preview suffix for some
+function isOlderVersion(version: string, than: string) {
+  return version.slice(0, 10) < than.slice(0, 10);
+}
+
+function sanitizeLogitBias(value: unknown) {
+  if (!value || typeof value !== "object") {
+    return;
+  }
+  const entries = Object.entries(value).filter(
+    ([token, bias]) => /^\d+$/.test(token) && typeof bias === "number",
+  );
+  return entries.length > 0
+    ? Object.fromEntries(
+        entries.map(([token, bias]) => [
+          token,
+          clamp(bias, -LOGIT_BIAS_RANGE, LOGIT_BIAS_RANGE),
+        ]),
+      )
+    : undefined;
+}
+
+export function sanitizeChatRequest(
+  json: any,
+  deployment: Deployment,
+  apiVersion: string,
+) {
+  const body = { ...json };
+  const dropped: string[] = [];
+  const drop = (name: string) => {
+    if (name in body) {
+      delete body[name];
+      dropped.push(name);
+    }
+  };
+
+  Object.entries(RANGES).forEach(([name, [min, max]]) => {
+    if (typeof body[name] === "number") {
+      body[name] = clamp(body[name], min, max);
+    } else if (body[name] !== undefined) {
+      drop(name);
+    }
+  });
+
+  if (typeof body.max_tokens === "number") {
+    body.max_tokens = clamp(
+      Math.floor(body.max_tokens),
+      1,
+      deployment.maxTokens,
+    );
+  }
+
+  if (body.stop !== undefined) {
+    const stop = [body.stop]
+      .flat()
+      .filter((v) => typeof v === "string" && v.length > 0)
+      .slice(0, MAX_STOP_SEQUENCES);
+    stop.length > 0 ? (body.stop = stop) : drop("stop");
+  }
+
+  if (body.logit_bias !== undefined) {
+    const logitBias = sanitizeLogitBias(body.logit_bias);
+    logitBias ? (body.logit_bias = logitBias) : drop("logit_bias");
+  }
+
+  if (body.seed !== undefined && !Number.isInteger(body.seed)) {
+    drop("seed");
+  }
+
+  if (body.user !== undefined && typeof body.user !== "string") {
+    drop("user");
+  }
+
+  if (
+    body.response_format !== undefined &&
+    (!["text", "json_object"].includes(body.response_format?.type) ||
+      (body.response_format.type === "json_object" &&
+        !JSON_MODE_MODELS.some((prefix) =>
+          deployment.model.startsWith(prefix),
+        )))
+  ) {
+    drop("response_format");
+  }
+
+  Object.entries(MIN_API_VERSIONS).forEach(([name, version]) => {
+    if (isOlderVersion(apiVersion, version)) {
+      drop(name);
+    }
+  });
+
+  // the calls and results of tools used before are not understood either,
+  // the replies that were only calls are left out with them
+  if (
+    isOlderVersion(apiVersion, MIN_API_VERSIONS.tools) &&
+    Array.isArray(body.messages)
+  ) {
+    body.messages = body.messages
+      .filter(
+        (m: any) =>
+          m?.role !== "tool" && (!m?.tool_calls || m.content?.length > 0),
+      )
+      .map(({ tool_calls, tool_call_id, ...m }: any) => m);
+  }
+
+  // only the text of the messages is sent where the images are not taken
+  if (
+    isOlderVersion(apiVersion, MIN_CONTENT_PARTS_API_VERSION) &&
+    Array.isArray(body.messages)
+  ) {
+    body.messages = body.messages.map((m: any) =>
+      Array.isArray(m?.content)
+        ? {
+            ...m,
+            content: m.content
+              .filter((part: any) => part?.type === "text")
+              .map((part: any) => part.text)
+              .join("\n"),
+          }
+        : m,
+    );
+  }
+
+  deployment.unsupportedParameters?.forEach(drop);
+
+  if (dropped.length > 0) {
+    console.log("[Parameters] dropped", dropped, "for", deployment.model);
+  }
+
+  return body;
+}
@@ -0,0 +1,225 @@
+import md5 from "spark-md5";
+
+// Per-identity limits, set with QUOTA_LIMITS as JSON keyed by user id, e.g.
+// {"default":{"requestsPerMinute":20,"tokensPerDay":200000,"monthlySpend":50},
+//  "alice@contoso.com":{"tokensPerDay":1000000},"code:team-a-secret":{"monthlySpend":200}}
+// Access codes are given in plain text after "code:". An identity without its
+// own entry gets "default", and its own entry is merged over "default".
+//
+// Counters live in memory by default. Set QUOTA_REDIS_URL and
+// QUOTA_REDIS_TOKEN to keep them in a Redis with a REST API (e.g. Upstash),
+// so that they are shared between server instances.
+
+export interface QuotaLimits {
+  requestsPerMinute?: number;
+  tokensPerDay?: number;
+  monthlySpend?: number; // USD
+}
+
+export type QuotaLimit =
+  | "requests_per_minute"
+  | "tokens_per_day"
+  | "monthly_spend";
+
+export interface QuotaExceeded {
+  limit: QuotaLimit;
+  retryAfter: number; // seconds
+}
+
+export interface QuotaStore {
+  get: (key: string) => Promise<number>;
+  incr: (key: string, amount: number, ttl: number) => Promise<number>;
+}
+
+export function createMemoryStore(): QuotaStore {
+  const counters = new Map<string, { value: number; expiresAt: number }>();
+
+  const sweep = () => {
+    const now = Date.now();
+    counters.forEach((v, k) => v.expiresAt <= now && counters.delete(k));
+  };
+
+  return {
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+    },
+
+    async incr(key, amount, ttl) {
+      if (counters.size > 10000) {
+        sweep();
+      }
+      const counter = counters.get(key);
+      if (counter && counter.expiresAt > Date.now()) {
+        counter.value += amount;
+        return counter.value;
+      }
+      counters.set(key, { value: amount, expiresAt: Date.now() + ttl * 1000 });
+      return amount;
+    },
+  };
+}
+
+export function createRedisStore(url: string, token: string): QuotaStore {
+  const command = async (...commands: (string | number)[][]) => {
+    const res = await fetch(`${url.replace(/\/$/, "")}/pipeline`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(commands),
+    });
+    if (!res.ok) {
+      throw Error(`[Quota] redis request failed with ${res.status}`);
+    }
+    return (await res.json()) as { result: any }[];
+  };
+
+  return {
+    async get(key) {
+      const [{ result }] = await command(["GET", key]);
+      return Number(result ?? 0);
+    },
+
+    async incr(key, amount, ttl) {
+      // NX keeps the expiry of an existing window
+      const [{ result }] = await command(
+        ["INCRBYFLOAT", key, amount],
+        ["EXPIRE", key, ttl, "NX"],
+      );
+      return Number(result);
+    },
+  };
+}
+
+const QUOTA_REDIS_URL = process.env.QUOTA_REDIS_URL;
+const QUOTA_REDIS_TOKEN = process.env.QUOTA_REDIS_TOKEN ?? "";
+
+export const quotaStore: QuotaStore = QUOTA_REDIS_URL
+  ? createRedisStore(QUOTA_REDIS_URL, QUOTA_REDIS_TOKEN)
+  : createMemoryStore();
+
+function normalizeIdentity(key: string) {
+  // the middleware identifies access code users by their hashed code
+  return key.startsWith("code:")
+    ? `code:${md5.hash(key.slice(5).trim()).slice(0, 8)}`
+    : key;
+}
+
+export function getQuotaConfig(): Map<string, QuotaLimits> {
+  const config = new Map<string, QuotaLimits>();
+
+  try {
+    const limits = JSON.parse(process.env.QUOTA_LIMITS ?? "{}");
+    Object.entries(limits).forEach(([key, value]) =>
+      config.set(normalizeIdentity(key), value as QuotaLimits),
+    );
+  } catch (e) {
+    console.error("[Quota] failed to parse QUOTA_LIMITS", e);
+  }
+
+  return config;
+}
+
+export const QUOTA_CONFIG = getQuotaConfig();
+
+export function getQuotaLimits(userId: string): QuotaLimits {
+  return {
+    ...QUOTA_CONFIG.get("default"),
+    ...QUOTA_CONFIG.get(userId),
+  };
+}
+
+function getWindows(now = new Date()) {
+  const iso = now.toISOString();
+  const endOfDay = new Date(iso.slice(0, 10) + "T00:00:00Z");
+  endOfDay.setUTCDate(endOfDay.getUTCDate() + 1);
+  const endOfMonth = new Date(iso.slice(0, 7) + "-01T00:00:00Z");
+  endOfMonth.setUTCMonth(endOfMonth.getUTCMonth() + 1);
+
+  const secondsUntil = (date: Date) =>
+    Math.ceil((date.getTime() - now.getTime()) / 1000);
+
+  return {
+    minute: iso.slice(0, 16),
+    day: iso.slice(0, 10),
+    month: iso.slice(0, 7),
+    secondsToNextMinute: 60 - now.getUTCSeconds(),
+    secondsToNextDay: secondsUntil(endOfDay),
+    secondsToNextMonth: secondsUntil(endOfMonth),
+  };
+}
+
+// Counts the request and checks it against the limits of the identity. The
+// prompt only has to fit into what is left of the daily tokens, the tokens
+// and cost of the whole request are added by consumeQuota once known.
+export async function checkQuota(
+  userId: string,
+  promptTokens: number,
+): Promise<QuotaExceeded | undefined> {
+  const limits = getQuotaLimits(userId);
+  const windows = getWindows();
+
+  if (limits.requestsPerMinute !== undefined) {
+    const requests = await quotaStore.incr(
+      `quota:rpm:${userId}:${windows.minute}`,
+      1,
+      60,
+    );
+    if (requests > limits.requestsPerMinute) {
+      return {
+        limit: "requests_per_minute",
+        retryAfter: windows.secondsToNextMinute,
+      };
+    }
+  }
+
+  if (limits.tokensPerDay !== undefined) {
+    const tokens = await quotaStore.get(
+      `quota:tokens:${userId}:${windows.day}`,
+    );
+    if (tokens + promptTokens > limits.tokensPerDay) {
+      return {
+        limit: "tokens_per_day",
+        retryAfter: windows.secondsToNextDay,
+      };
+    }
+  }
+
+  if (limits.monthlySpend !== undefined) {
+    const spend = await quotaStore.get(
+      `quota:spend:${userId}:${windows.month}`,
+    );
+    if (spend >= limits.monthlySpend) {
+      return {
+        limit: "monthly_spend",
+        retryAfter: windows.secondsToNextMonth,
+      };
+    }
+  }
+}
+
+export async function consumeQuota(
+  userId: string,
+  tokens: number,
+  cost: number,
+) {
+  const limits = getQuotaLimits(userId);
+  const windows = getWindows();
+
+  if (limits.tokensPerDay !== undefined) {
+    await quotaStore.incr(
+      `quota:tokens:${userId}:${windows.day}`,
+      tokens,
+      2 * 24 * 3600,
+    );
+  }
+
+  if (limits.monthlySpend !== undefined) {
+    await quotaStore.incr(
+      `quota:spend:${userId}:${windows.month}`,
+      cost,
+      32 * 24 * 3600,
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { readFileSync } from "fs";
+import { writeFile } from "fs/promises";
+
+// Chat sessions of each user, synced between their devices. Enabled by
+// SESSIONS_FILE, the JSON file they are kept in, and held in memory between
+// saves like the usage.
+//
+// Every write bumps the revision of the user, the clients pull what changed
+// since the last revision they have seen. A write based on an older revision
+// of the session than the stored one is a conflict, the version updated last
+// wins. Deleted sessions are kept as tombstones so that the deletion syncs.
+const SESSIONS_FILE = process.env.SESSIONS_FILE;
+const SAVE_DELAY_MS = 2000;
+
+export interface StoredSession {
+  id: number;
+  revision: number;
+  updatedAt: number; // ms, by the clock of the device that made the change
+  deleted?: boolean;
+  session?: unknown; // the ChatSession, opaque to the server
+}
+
+export interface SessionChange {
+  id: number;
+  updatedAt: number;
+  base: number; // revision of the session the change was made on, 0 if new
+  deleted?: boolean;
+  session?: unknown;
+}
+
+export interface SessionsResponse {
+  revision: number;
+  sessions: StoredSession[];
+  conflicts?: number[]; // ids of the sessions written concurrently
+}
+
+interface UserSessions {
+  revision: number;
+  sessions: Record<number, StoredSession>;
+}
+
+export function isSessionStoreEnabled() {
+  return !!SESSIONS_FILE;
+}
+
+function loadUsers() {
+  if (!SESSIONS_FILE) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(SESSIONS_FILE, "utf-8")) as Record<
+      string,
+      UserSessions
+    >;
+  } catch (e) {
+    console.warn("[Sessions] no sessions loaded from", SESSIONS_FILE);
+    return {};
+  }
+}
+
+const users = loadUsers();
+let saveTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleSave() {
+  if (!SESSIONS_FILE || saveTimeoutId) {
+    return;
+  }
+  saveTimeoutId = setTimeout(() => {
+    saveTimeoutId = undefined;
+    writeFile(SESSIONS_FILE, JSON.stringify(users)).catch((e) =>
+      console.error("[Sessions] failed to save sessions", e),
+    );
+  }, SAVE_DELAY_MS);
+}
+
+function getUser(user: string) {
+  if (!users[user]) {
+    users[user] = { revision: 0, sessions: {} };
+  }
+  return users[user];
+}
+
+export function isSessionChange(value: any): value is SessionChange {
+  return (
+    typeof value?.id === "number" &&
+    typeof value.updatedAt === "number" &&
+    typeof value.base === "number" &&
+    (value.deleted === true || typeof value.session === "object")
+  );
+}
+
+// the sessions written after the given revision
+export function getSessions(user: string, since: number): SessionsResponse {
+  const { revision, sessions } = getUser(user);
+
+  return {
+    revision,
+    sessions: Object.values(sessions).filter((s) => s.revision > since),
+  };
+}
+
+// the stored version of each session is returned, the change when it won
+export function saveSessions(
+  user: string,
+  changes: SessionChange[],
+): SessionsResponse {
+  const target = getUser(user);
+  const sessions: StoredSession[] = [];
+  const conflicts: number[] = [];
+
+  changes.forEach((change) => {
+    const stored = target.sessions[change.id];
+    if (stored && stored.revision !== change.base) {
+      conflicts.push(change.id);
+      if (stored.updatedAt >= change.updatedAt) {
+        sessions.push(stored);
+        return;
+      }
+    }
+
+    target.revision += 1;
+    const record: StoredSession = {
+      id: change.id,
+      revision: target.revision,
+      updatedAt: change.updatedAt,
+      ...(change.deleted ? { deleted: true } : { session: change.session }),
+    };
+    target.sessions[change.id] = record;
+    sessions.push(record);
+  });
+
+  if (conflicts.length > 0) {
+    console.log("[Sessions] conflicts of", user, conflicts);
+  }
+  scheduleSave();
+
+  return { revision: target.revision, sessions, conflicts };
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { USER_ID_HEADER } from "../auth";
+import {
+  getSessions,
+  isSessionChange,
+  isSessionStoreEnabled,
+  saveSessions,
+} from "../sessions";
+
+function getUser(req: NextRequest) {
+  if (!isSessionStoreEnabled()) {
+    return NextResponse.json(
+      {
+        error: true,
+        msg: "Session storage is not enabled",
+      },
+      {
+        status: 404,
+      },
+    );
+  }
+
+  // without a login the sessions of everyone would be mixed, an access code
+  // is shared by all who were given it
+  const userId = req.headers.get(USER_ID_HEADER) ?? "anonymous";
+  if (userId === "anonymous" || userId.startsWith("code:")) {
+    return NextResponse.json(
+      {
+        error: true,
+        msg: "Sign in to sync your chats",
+      },
+      {
+        status: 403,
+      },
+    );
+  }
+
+  return userId;
+}
+
+// the sessions written after ?since= (a revision)
+export async function GET(req: NextRequest) {
+  const userId = getUser(req);
+  if (typeof userId !== "string") {
+    return userId;
+  }
+  const since = Number(req.nextUrl.searchParams.get("since") ?? 0) || 0;
+
+  return NextResponse.json(getSessions(userId, since), {
+    headers: { "Cache-Control": "no-cache" },
+  });
+}
+
+// saves {"changes": SessionChange[]}, the stored versions are returned
+export async function PUT(req: NextRequest) {
+  const userId = getUser(req);
+  if (typeof userId !== "string") {
+    return userId;
+  }
+  const { changes } = (await req.json()) as { changes?: unknown };
+
+  if (!Array.isArray(changes) || !changes.every(isSessionChange)) {
+    return NextResponse.json(
+      {
+        error: true,
+        msg: "Invalid session changes",
+      },
+      {
+        status: 400,
+      },
+    );
+  }
+
+  return NextResponse.json(saveSessions(userId, changes));
+}
+
+// the store is enabled by a runtime environment variable
+export const dynamic = "force-dynamic";
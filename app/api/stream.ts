@@ -0,0 +1,78 @@
+// Events of /api/chat-stream, sent as newline-delimited JSON. A reply is any
+// number of deltas followed by a finish and, once the upstream body has been
+// read, the usage. Content filter results are sent when Azure reports them.
+// Heartbeats keep idle connections open while the model is thinking, an error
+// may end the stream at any point. When several choices are asked for (n > 1)
+// their events are interleaved and tell the choice they belong to.
+
+export type FinishReason =
+  | "stop"
+  | "length"
+  | "content_filter"
+  | "tool_calls"
+  | "function_call";
+
+// Azure content filtering, see
+// https://learn.microsoft.com/en-us/azure/ai-services/openai/concepts/content-filter
+export const FILTER_CATEGORIES = [
+  "hate",
+  "sexual",
+  "violence",
+  "self_harm",
+] as const;
+export const FILTER_SEVERITIES = ["safe", "low", "medium", "high"] as const;
+
+export type FilterCategory = (typeof FILTER_CATEGORIES)[number];
+export type FilterSeverity = (typeof FILTER_SEVERITIES)[number];
+
+export interface FilterResult {
+  filtered: boolean;
+  severity: FilterSeverity;
+}
+
+export type ContentFilterResults = Partial<
+  Record<FilterCategory, FilterResult>
+>;
+
+export type StreamEvent =
+  | { type: "delta"; choice: number; role?: string; content: string }
+  // fragments of the calls, assembled by index on the client
+  | {
+      type: "tool_call";
+      choice: number;
+      index: number;
+      id?: string;
+      name?: string;
+      arguments: string;
+    }
+  | { type: "finish"; choice: number; reason: FinishReason }
+  // prompt results come first, completion results are merged over all chunks
+  // of a choice
+  | {
+      type: "filter";
+      source: "prompt" | "completion";
+      choice?: number;
+      results: ContentFilterResults;
+    }
+  | {
+      type: "usage";
+      prompt_tokens: number;
+      completion_tokens: number;
+      cost: number;
+    }
+  | {
+      type: "error";
+      code: string;
+      status?: number;
+      message: string;
+      // set for quota errors, see QuotaExceeded
+      limit?: string;
+      retryAfter?: number;
+    }
+  | { type: "heartbeat" };
+
+export const STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+export function encodeEvent(event: StreamEvent) {
+  return JSON.stringify(event) + "\n";
+}
@@ -0,0 +1,80 @@
+import type { ToolDefinition } from "./openai/typing";
+
+// HTTP tools run by the server, set with SERVER_TOOLS as a JSON array, e.g.
+// [{"name":"search_handbook","description":"Search the employee handbook",
+//   "parameters":{"type":"object","properties":{"query":{"type":"string"}},"required":["query"]},
+//   "url":"https://tools.contoso.com/search","headers":{"x-api-key":"..."}}]
+// The arguments generated by the model are POSTed as JSON to url, and the
+// response body is handed back to the model as the result of the call. url
+// and headers never leave the server.
+
+export interface ServerTool {
+  name: string;
+  description?: string;
+  parameters?: object; // JSON schema
+  url: string;
+  headers?: Record<string, string>;
+}
+
+const TOOL_TIMEOUT_MS = Number(process.env.SERVER_TOOLS_TIMEOUT ?? 15) * 1000;
+// keep results from eating up the context window
+const MAX_RESULT_LENGTH = 16000;
+
+function parseServerTools() {
+  const tools = new Map<string, ServerTool>();
+
+  try {
+    const list = JSON.parse(process.env.SERVER_TOOLS ?? "[]");
+    if (!Array.isArray(list)) {
+      throw Error("SERVER_TOOLS is not an array");
+    }
+    list
+      .filter((v) => !!v?.name && !!v?.url)
+      .forEach((tool: ServerTool) => tools.set(tool.name, tool));
+  } catch (e) {
+    console.error("[Tools] failed to parse SERVER_TOOLS", e);
+  }
+
+  return tools;
+}
+
+export const SERVER_TOOLS = parseServerTools();
+
+export function getToolDefinitions(): ToolDefinition[] {
+  return [...SERVER_TOOLS.values()].map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters ?? { type: "object", properties: {} },
+    },
+  }));
+}
+
+export async function callServerTool(name: string, args: string) {
+  const tool = SERVER_TOOLS.get(name);
+  if (!tool) {
+    throw Error(`[Tools] unknown tool: ${name}`);
+  }
+
+  // the model may produce broken JSON, let it know instead of forwarding it
+  JSON.parse(args || "{}");
+
+  const res = await fetch(tool.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...tool.headers,
+    },
+    body: args || "{}",
+    signal: AbortSignal.timeout(TOOL_TIMEOUT_MS),
+  });
+
+  const text = await res.text();
+  if (!res.ok) {
+    throw Error(`[Tools] ${name} failed with ${res.status}: ${text}`);
+  }
+
+  console.log("[Tools] called", name);
+  return text.slice(0, MAX_RESULT_LENGTH);
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { callServerTool, getToolDefinitions, SERVER_TOOLS } from "../tools";
+
+export async function GET() {
+  return NextResponse.json({
+    tools: getToolDefinitions(),
+  });
+}
+
+// runs one call of a server tool, {"name","arguments"} as sent by the model
+export async function POST(req: NextRequest) {
+  let name: string;
+  let args: string;
+  try {
+    ({ name, arguments: args } = await req.json());
+  } catch (e) {
+    return NextResponse.json(
+      {
+        error: true,
+        msg: "Invalid tool call",
+      },
+      {
+        status: 400,
+      },
+    );
+  }
+
+  if (!SERVER_TOOLS.has(name)) {
+    return NextResponse.json(
+      {
+        error: true,
+        msg: `Tool "${name}" is not available`,
+      },
+      {
+        status: 404,
+      },
+    );
+  }
+
+  try {
+    return NextResponse.json({
+      result: await callServerTool(name, args),
+    });
+  } catch (e) {
+    console.error("[Tools] ", e);
+    return NextResponse.json(
+      {
+        error: true,
+        msg: e instanceof Error ? e.message : String(e),
+      },
+      {
+        status: 502,
+      },
+    );
+  }
+}
+
+// the tools depend on runtime environment variables
+export const dynamic = "force-dynamic";
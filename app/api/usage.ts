@@ -0,0 +1,129 @@
+import { readFileSync } from "fs";
+import { writeFile } from "fs/promises";
+
+// Token usage aggregated per user, model and day (UTC). Kept in memory, and
+// in the JSON file at USAGE_FILE when set so that it survives restarts.
+const USAGE_FILE = process.env.USAGE_FILE;
+const SAVE_DELAY_MS = 5000;
+
+export interface UsageTotals {
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost: number; // USD
+}
+
+export interface UsageRecord extends UsageTotals {
+  user: string;
+  model: string;
+  day: string; // yyyy-mm-dd
+}
+
+export interface UsageReport {
+  start: string;
+  end: string;
+  total: UsageTotals;
+  models: (UsageTotals & { model: string })[];
+  days: (UsageTotals & { day: string })[];
+}
+
+function loadRecords() {
+  const records = new Map<string, UsageRecord>();
+  if (!USAGE_FILE) {
+    return records;
+  }
+
+  try {
+    const list = JSON.parse(readFileSync(USAGE_FILE, "utf-8")) as UsageRecord[];
+    list.forEach((r) => records.set(recordKey(r.user, r.model, r.day), r));
+  } catch (e) {
+    console.warn("[Usage] no usage loaded from", USAGE_FILE);
+  }
+  return records;
+}
+
+function recordKey(user: string, model: string, day: string) {
+  return `${user}\n${model}\n${day}`;
+}
+
+const records = loadRecords();
+let saveTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleSave() {
+  if (!USAGE_FILE || saveTimeoutId) {
+    return;
+  }
+  saveTimeoutId = setTimeout(() => {
+    saveTimeoutId = undefined;
+    writeFile(USAGE_FILE, JSON.stringify([...records.values()])).catch((e) =>
+      console.error("[Usage] failed to save usage", e),
+    );
+  }, SAVE_DELAY_MS);
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, prompt_tokens: 0, completion_tokens: 0, cost: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals) {
+  target.requests += source.requests;
+  target.prompt_tokens += source.prompt_tokens;
+  target.completion_tokens += source.completion_tokens;
+  target.cost += source.cost;
+  return target;
+}
+
+export function recordUsage(
+  user: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  cost: number,
+) {
+  const day = new Date().toISOString().slice(0, 10);
+  const key = recordKey(user, model, day);
+  const record = records.get(key) ?? { user, model, day, ...emptyTotals() };
+
+  addTotals(record, {
+    requests: 1,
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    cost,
+  });
+  records.set(key, record);
+  scheduleSave();
+}
+
+// usage of one user between two days, both included
+export function getUsageReport(
+  user: string,
+  start: string,
+  end: string,
+): UsageReport {
+  const total = emptyTotals();
+  const models = new Map<string, UsageTotals & { model: string }>();
+  const days = new Map<string, UsageTotals & { day: string }>();
+
+  records.forEach((r) => {
+    if (r.user !== user || r.day < start || r.day > end) {
+      return;
+    }
+    addTotals(total, r);
+    if (!models.has(r.model)) {
+      models.set(r.model, { model: r.model, ...emptyTotals() });
+    }
+    addTotals(models.get(r.model)!, r);
+    if (!days.has(r.day)) {
+      days.set(r.day, { day: r.day, ...emptyTotals() });
+    }
+    addTotals(days.get(r.day)!, r);
+  });
+
+  return {
+    start,
+    end,
+    total,
+    models: [...models.values()].sort((a, b) => b.cost - a.cost),
+    days: [...days.values()].sort((a, b) => a.day.localeCompare(b.day)),
+  };
+}
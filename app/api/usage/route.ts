@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { USER_ID_HEADER } from "../auth";
+import { getUsageReport } from "../usage";
+
+// usage of the current user, this month unless ?start=&end= (yyyy-mm-dd)
+export async function GET(req: NextRequest) {
+  const userId = req.headers.get(USER_ID_HEADER) ?? "anonymous";
+  const today = new Date().toISOString().slice(0, 10);
+  const start =
+    req.nextUrl.searchParams.get("start") ?? today.slice(0, 7) + "-01";
+  const end = req.nextUrl.searchParams.get("end") ?? today;
+
+  return NextResponse.json(getUsageReport(userId, start, end), {
+    headers: { "Cache-Control": "no-cache" },
+  });
+}
+
+// the usage is recorded in the memory and the file of the Node.js server,
+// like chat-stream and openai this route must not move to the edge runtime
+export const runtime = "nodejs";
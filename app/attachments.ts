@@ -0,0 +1,221 @@
+import { loadTokenizer } from "./token-counter";
+
+// Files attached to a session. Their text is extracted in the browser, split
+// into chunks of about CHUNK_TOKENS tokens and kept with the session, and the
+// chunks most relevant to the user input are sent along with it.
+
+export interface AttachmentChunk {
+  text: string;
+  tokens: number;
+}
+
+export interface Attachment {
+  id: number;
+  name: string;
+  size: number; // bytes of the file
+  tokens: number;
+  truncated: boolean;
+  chunks: AttachmentChunk[];
+  date: string;
+}
+
+export interface SelectedChunk extends AttachmentChunk {
+  name: string;
+  index: number;
+}
+
+export const TEXT_EXTENSIONS = [
+  "txt",
+  "md",
+  "markdown",
+  "csv",
+  "tsv",
+  "json",
+  "jsonl",
+  "xml",
+  "yaml",
+  "yml",
+  "toml",
+  "ini",
+  "log",
+  "html",
+  "css",
+  "scss",
+  "js",
+  "jsx",
+  "ts",
+  "tsx",
+  "py",
+  "java",
+  "kt",
+  "swift",
+  "c",
+  "h",
+  "cpp",
+  "hpp",
+  "cs",
+  "go",
+  "rs",
+  "rb",
+  "php",
+  "sh",
+  "sql",
+];
+
+export const ATTACHMENT_ACCEPT = TEXT_EXTENSIONS.concat("pdf")
+  .map((ext) => `.${ext}`)
+  .join(",");
+
+const CHUNK_TOKENS = 400;
+// every chunk is persisted in the browser, so keep the text of one file small
+const MAX_ATTACHMENT_CHARS = 500000;
+
+function getExtension(name: string) {
+  return name.split(".").pop()?.toLowerCase() ?? "";
+}
+
+export function isSupportedFile(file: File) {
+  const ext = getExtension(file.name);
+  return (
+    ext === "pdf" ||
+    TEXT_EXTENSIONS.includes(ext) ||
+    file.type.startsWith("text/")
+  );
+}
+
+async function extractPdfText(file: File) {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    "pdfjs-dist/build/pdf.worker.min.js",
+    import.meta.url,
+  ).toString();
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() })
+    .promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i += 1) {
+    const content = await (await pdf.getPage(i)).getTextContent();
+    pages.push(
+      content.items
+        .map((item) =>
+          "str" in item ? item.str + (item.hasEOL ? "\n" : "") : "",
+        )
+        .join(""),
+    );
+  }
+  return pages.join("\n\n");
+}
+
+export function extractText(file: File) {
+  return getExtension(file.name) === "pdf" ? extractPdfText(file) : file.text();
+}
+
+// paragraphs are kept together where possible, long ones split by lines
+function splitIntoPieces(text: string) {
+  const maxChars = CHUNK_TOKENS * 4;
+  return text
+    .split(/\n\s*\n/)
+    .flatMap((paragraph) =>
+      paragraph.length > maxChars ? paragraph.split("\n") : [paragraph],
+    )
+    .flatMap((line) => {
+      const pieces: string[] = [];
+      for (let i = 0; i < line.length; i += maxChars) {
+        pieces.push(line.slice(i, i + maxChars));
+      }
+      return pieces;
+    })
+    .filter((piece) => piece.trim().length > 0);
+}
+
+// pieces of text are joined into chunks of at most CHUNK_TOKENS tokens
+export async function splitIntoChunks(text: string, model?: string) {
+  const { countTokens } = await loadTokenizer();
+
+  const chunks: AttachmentChunk[] = [];
+  let current: AttachmentChunk = { text: "", tokens: 0 };
+  for (const piece of splitIntoPieces(text)) {
+    const tokens = countTokens(piece, model);
+    if (current.tokens > 0 && current.tokens + tokens > CHUNK_TOKENS) {
+      chunks.push(current);
+      current = { text: "", tokens: 0 };
+    }
+    current.text += (current.text ? "\n\n" : "") + piece;
+    current.tokens += tokens;
+  }
+  if (current.tokens > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+export async function createAttachment(
+  file: File,
+  model?: string,
+): Promise<Attachment> {
+  const text = await extractText(file);
+  const chunks = await splitIntoChunks(
+    text.slice(0, MAX_ATTACHMENT_CHARS),
+    model,
+  );
+
+  return {
+    id: Date.now() + Math.random(),
+    name: file.name,
+    size: file.size,
+    tokens: chunks.reduce((pre, cur) => pre + cur.tokens, 0),
+    truncated: text.length > MAX_ATTACHMENT_CHARS,
+    chunks,
+    date: new Date().toLocaleString(),
+  };
+}
+
+// latin words, and han characters one by one as they are not space separated
+function getTerms(text: string): string[] {
+  return text.toLowerCase().match(/\p{Script=Han}|[\p{L}\p{N}_]{2,}/gu) ?? [];
+}
+
+// Picks the chunks that fit into the token budget, the ones sharing the most
+// (rare) terms with the query first. Without any match the files are sent
+// from the beginning. The picked chunks are returned in document order.
+export function selectChunks(
+  attachments: Attachment[],
+  query: string,
+  budget: number,
+): SelectedChunk[] {
+  const candidates = attachments.flatMap((attachment) =>
+    attachment.chunks.map((chunk, index) => ({
+      ...chunk,
+      name: attachment.name,
+      index,
+      order: 0,
+      score: 0,
+      terms: getTerms(chunk.text),
+    })),
+  );
+  candidates.forEach((c, i) => (c.order = i));
+
+  const queryTerms = new Set(getTerms(query));
+  queryTerms.forEach((term) => {
+    const matches = candidates.filter((c) => c.terms.includes(term));
+    const idf = Math.log(1 + candidates.length / (matches.length || 1));
+    matches.forEach((c) => {
+      const tf = c.terms.filter((t) => t === term).length;
+      c.score += (tf * idf) / Math.sqrt(c.terms.length);
+    });
+  });
+
+  let used = 0;
+  return candidates
+    .slice()
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .filter((c) => {
+      if (used + c.tokens > budget) {
+        return false;
+      }
+      used += c.tokens;
+      return true;
+    })
+    .sort((a, b) => a.order - b.order)
+    .map(({ text, tokens, name, index }) => ({ text, tokens, name, index }));
+}
@@ -0,0 +1,172 @@
+import { ChatConfig, ChatSession, useAccessStore, useChatStore } from "./store";
+import { Prompt, SearchService, usePromptStore } from "./store/prompt";
+
+// Backup of what the browser keeps, the chats with the settings, the user
+// prompts and the access code, in one JSON file. Each store is saved with the
+// version of its persisted state and goes through the migrate of its persist
+// options when restored, like the state of an older release would. The
+// knowledge bases are left out, their vectors are rebuilt by uploading again.
+
+export const BACKUP_VERSION = 1;
+const BACKUP_APP = "chat-next-web";
+
+export type RestoreMode = "merge" | "replace";
+
+interface StoreBackup {
+  version: number;
+  state: any;
+}
+
+export interface Backup {
+  app: typeof BACKUP_APP;
+  version: number;
+  date: string;
+  stores: {
+    chat?: StoreBackup;
+    prompt?: StoreBackup;
+    access?: StoreBackup;
+  };
+}
+
+// the restored state of each store, migrated to the current version
+export interface RestoredData {
+  date: string;
+  sessions: ChatSession[];
+  config?: ChatConfig;
+  prompts: Prompt[];
+  access?: { accessCode: string; token: string };
+}
+
+type PersistedStore = typeof useChatStore | typeof useAccessStore;
+
+function saveStore(store: PersistedStore, state: unknown): StoreBackup {
+  return {
+    version: store.persist.getOptions().version ?? 0,
+    state: JSON.parse(JSON.stringify(state)),
+  };
+}
+
+async function loadStore(store: PersistedStore, backup?: StoreBackup) {
+  if (!backup?.state) {
+    return;
+  }
+
+  const { version = 0, migrate } = store.persist.getOptions();
+  if (backup.version === version) {
+    return backup.state;
+  }
+  if (backup.version > version || !migrate) {
+    throw Error(`unsupported version ${backup.version} of the saved state`);
+  }
+  return migrate(backup.state, backup.version);
+}
+
+export function createBackup(): Backup {
+  const { config, sessions } = useChatStore.getState();
+  const { latestId, prompts } = usePromptStore.getState();
+  const { accessCode, token } = useAccessStore.getState();
+
+  return {
+    app: BACKUP_APP,
+    version: BACKUP_VERSION,
+    date: new Date().toISOString(),
+    stores: {
+      chat: saveStore(useChatStore, { config, sessions }),
+      // the prompts are a Map, saved as a list
+      prompt: {
+        version: usePromptStore.persist.getOptions().version ?? 0,
+        state: { latestId, prompts: Array.from(prompts.values()) },
+      },
+      access: saveStore(useAccessStore, { accessCode, token }),
+    },
+  };
+}
+
+// a single session, restored by merging like a full backup
+export function createSessionBackup(session: ChatSession): Backup {
+  return {
+    app: BACKUP_APP,
+    version: BACKUP_VERSION,
+    date: new Date().toISOString(),
+    stores: {
+      chat: saveStore(useChatStore, { sessions: [session] }),
+    },
+  };
+}
+
+export async function readBackup(text: string): Promise<RestoredData> {
+  const backup = JSON.parse(text) as Partial<Backup>;
+  if (backup.app !== BACKUP_APP || typeof backup.version !== "number") {
+    throw Error("not a backup of this app");
+  }
+  if (backup.version > BACKUP_VERSION) {
+    throw Error(`unsupported backup version ${backup.version}`);
+  }
+
+  const chat = await loadStore(useChatStore, backup.stores?.chat);
+  const access = await loadStore(useAccessStore, backup.stores?.access);
+  const prompts: Prompt[] = backup.stores?.prompt?.state?.prompts ?? [];
+
+  return {
+    date: backup.date ?? "",
+    sessions: Array.isArray(chat?.sessions) ? chat.sessions : [],
+    config: chat?.config,
+    prompts: prompts.filter(
+      (p) => typeof p?.title === "string" && typeof p.content === "string",
+    ),
+    access,
+  };
+}
+
+// merging keeps the settings here and the session updated last of the ones
+// on both sides, replacing drops what was here
+export function restoreBackup(data: RestoredData, mode: RestoreMode) {
+  const chatStore = useChatStore.getState();
+
+  if (mode === "replace") {
+    useChatStore.setState({
+      sessions: data.sessions,
+      currentSessionIndex: 0,
+      ...(data.config && { config: data.config }),
+    });
+    if (data.sessions.length === 0) {
+      chatStore.clearSessions();
+    }
+    data.access && useAccessStore.setState(data.access);
+  } else {
+    chatStore.applyRemoteSessions(
+      data.sessions.filter((session) => {
+        const local = chatStore.sessions.find((s) => s.id === session.id);
+        return !local || session.updatedAt > local.updatedAt;
+      }),
+      [],
+    );
+  }
+
+  restorePrompts(data.prompts, mode);
+}
+
+function restorePrompts(restored: Prompt[], mode: RestoreMode) {
+  const { prompts, latestId } = usePromptStore.getState();
+  if (mode === "replace") {
+    Array.from(prompts.keys()).forEach((id) => SearchService.remove(id));
+    prompts.clear();
+  }
+
+  let id = latestId;
+  restored
+    .filter(
+      (prompt) =>
+        !Array.from(prompts.values()).some(
+          (p) => p.title === prompt.title && p.content === prompt.content,
+        ),
+    )
+    .forEach(({ title, content }) => {
+      id += 1;
+      const prompt = { id, title, content };
+      prompts.set(id, prompt);
+      SearchService.add(prompt);
+    });
+
+  usePromptStore.setState({ prompts: new Map(prompts), latestId: id });
+}
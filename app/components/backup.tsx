@@ -0,0 +1,70 @@
+import AddIcon from "../icons/add.svg";
+import ResetIcon from "../icons/reload.svg";
+
+import { RestoredData, RestoreMode, restoreBackup } from "../backup";
+import Locale from "../locales";
+
+import { IconButton } from "./button";
+import { Modal, showToast } from "./ui-lib";
+import styles from "./backup.module.scss";
+
+// what a backup file holds, restored by merging or replacing
+export function RestoreModal(props: {
+  data: RestoredData;
+  onClose: () => void;
+}) {
+  const { data } = props;
+  const messages = data.sessions.reduce(
+    (pre, session) => pre + session.messages.length,
+    0,
+  );
+
+  const restore = (mode: RestoreMode) => {
+    if (mode === "replace" && !confirm(Locale.Backup.ConfirmReplace)) {
+      return;
+    }
+    restoreBackup(data, mode);
+    showToast(Locale.Backup.Restored);
+    props.onClose();
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Backup.Restore}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="merge"
+            icon={<AddIcon />}
+            text={Locale.Backup.Merge}
+            bordered
+            onClick={() => restore("merge")}
+          />,
+          <IconButton
+            key="replace"
+            icon={<ResetIcon />}
+            text={Locale.Backup.Replace}
+            bordered
+            onClick={() => restore("replace")}
+          />,
+        ]}
+      >
+        <div>
+          <div className={styles["backup-summary"]}>
+            {Locale.Backup.Summary(
+              data.date ? new Date(data.date).toLocaleString() : "",
+              data.sessions.length,
+              messages,
+              data.prompts.length,
+            )}
+          </div>
+          <ul className={styles["backup-modes"]}>
+            <li>{Locale.Backup.MergeHint}</li>
+            <li>{Locale.Backup.ReplaceHint}</li>
+          </ul>
+        </div>
+      </Modal>
+    </div>
+  );
+}
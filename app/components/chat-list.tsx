@@ -18,6 +18,7 @@ export function ChatItem(props: {
   title: string;
   count: number;
   time: string;
+  badge?: string; // set when the session overrides the model config
   selected: boolean;
   id: number;
   index: number;
@@ -39,6 +40,9 @@ export function ChatItem(props: {
             <div className={styles["chat-item-count"]}>
               {Locale.ChatItem.ChatItemCount(props.count)}
             </div>
+            {props.badge && (
+              <div className={styles["chat-item-badge"]}>{props.badge}</div>
+            )}
             <div className={styles["chat-item-date"]}>{props.time}</div>
           </div>
           <div className={styles["chat-item-delete"]} onClick={props.onDelete}>
@@ -91,6 +95,11 @@ export function ChatList() {
                 title={item.topic}
                 time={item.lastUpdate}
                 count={item.messages.length}
+                badge={
+                  Object.keys(item.modelConfig).length > 0
+                    ? item.modelConfig.model ?? Locale.SessionConfig.Badge
+                    : undefined
+                }
                 key={item.id}
                 id={item.id}
                 index={i}
@@ -6,25 +6,36 @@ import BrainIcon from "../icons/brain.svg";
 import ExportIcon from "../icons/export.svg";
 import ReturnIcon from "../icons/return.svg";
 import CopyIcon from "../icons/copy.svg";
-import DownloadIcon from "../icons/download.svg";
 import LoadingIcon from "../icons/three-dots.svg";
 import BotIcon from "../icons/bot.svg";
 import UserIcon from "../icons/user-svg.svg"; //Use this for user avatar instead of emoji
 import AddIcon from "../icons/add.svg";
 import DeleteIcon from "../icons/delete.svg";
+import ImageIcon from "../icons/image.svg";
+import AttachmentIcon from "../icons/attachment.svg";
+import BookIcon from "../icons/book.svg";
+import CompareIcon from "../icons/compare.svg";
+import SettingsIcon from "../icons/settings.svg";
+import CloseIcon from "../icons/close.svg";
 
 import {
+  Candidate,
   Message,
   SubmitKey,
   useChatStore,
   BOT_HELLO,
   ROLES,
+  createContent,
   createMessage,
+  countBranches,
+  getMessageImages,
+  getMessageTextContent,
+  useModelStore,
 } from "../store";
 
 import {
+  compressImage,
   copyToClipboard,
-  downloadAs,
   getEmojiUrl,
   isMobileScreen,
   selectOrCopy,
@@ -33,7 +44,25 @@ import {
 import dynamic from "next/dynamic";
 
 import { ControllerPool } from "../requests";
+import {
+  ATTACHMENT_ACCEPT,
+  createAttachment,
+  isSupportedFile,
+} from "../attachments";
+import type { Citation } from "../knowledge";
+import {
+  countMessagesTokens,
+  getReplyTokens,
+  loadTokenizer,
+} from "../token-counter";
+import type { ToolCall } from "../api/openai/typing";
+import type {
+  ContentFilterResults,
+  FilterCategory,
+  FilterSeverity,
+} from "../api/stream";
 import { Prompt, usePromptStore } from "../store/prompt";
+import { useSummaryStore } from "../store/summary";
 import Locale from "../locales";
 
 import { IconButton } from "./button";
@@ -41,6 +70,9 @@ import styles from "./home.module.scss";
 import chatStyle from "./chat.module.scss";
 
 import { Input, Modal, showModal, showToast } from "./ui-lib";
+import { KnowledgeBaseModal } from "./knowledge";
+import { CompareModal } from "./compare";
+import { SessionConfigModal } from "./session-config";
 
 const Markdown = dynamic(
   async () => memo((await import("./markdown")).Markdown),
@@ -49,6 +81,13 @@ const Markdown = dynamic(
   },
 );
 
+const ExportModal = dynamic(
+  async () => (await import("./exporter")).ExportModal,
+  {
+    loading: () => <LoadingIcon />,
+  },
+);
+
 const Emoji = dynamic(async () => (await import("emoji-picker-react")).Emoji, {
   loading: () => <LoadingIcon />,
 });
@@ -69,44 +108,6 @@ export function Avatar(props: { role: Message["role"] }) {
   // );
 }
 
-function exportMessages(messages: Message[], topic: string) {
-  const mdText =
-    `# ${topic}\n\n` +
-    messages
-      .map((m) => {
-        return m.role === "user"
-          ? `## ${Locale.Export.MessageFromYou}:\n${m.content}`
-          : `## ${Locale.Export.MessageFromChatGPT}:\n${m.content.trim()}`;
-      })
-      .join("\n\n");
-  const filename = `${topic}.md`;
-
-  showModal({
-    title: Locale.Export.Title,
-    children: (
-      <div className="markdown-body">
-        <pre className={styles["export-content"]}>{mdText}</pre>
-      </div>
-    ),
-    actions: [
-      <IconButton
-        key="copy"
-        icon={<CopyIcon />}
-        bordered
-        text={Locale.Export.Copy}
-        onClick={() => copyToClipboard(mdText)}
-      />,
-      <IconButton
-        key="download"
-        icon={<DownloadIcon />}
-        bordered
-        text={Locale.Export.Download}
-        onClick={() => downloadAs(mdText, filename)}
-      />,
-    ],
-  });
-}
-
 function PromptToast(props: {
   showToast?: boolean;
   showModal?: boolean;
@@ -115,6 +116,10 @@ function PromptToast(props: {
   const chatStore = useChatStore();
   const session = chatStore.currentSession();
   const context = session.context;
+  const [memoryTask, cancelSummary] = useSummaryStore((state) => [
+    state.get(session.id, "memory"),
+    state.cancel,
+  ]);
 
   const addContextPrompt = (prompt: Message) => {
     chatStore.updateCurrentSession((session) => {
@@ -154,6 +159,23 @@ function PromptToast(props: {
             title={Locale.Context.Edit}
             onClose={() => props.setShowModal(false)}
             actions={[
+              memoryTask ? (
+                <IconButton
+                  key="summarize"
+                  icon={<LoadingIcon />}
+                  bordered
+                  text={Locale.Memory.Cancel}
+                  onClick={() => cancelSummary(session.id, "memory")}
+                />
+              ) : (
+                <IconButton
+                  key="summarize"
+                  icon={<BrainIcon />}
+                  bordered
+                  text={Locale.Memory.Summarize}
+                  onClick={() => chatStore.summarizeSession(true)}
+                />
+              ),
               <IconButton
                 key="reset"
                 icon={<CopyIcon />}
@@ -194,7 +216,7 @@ function PromptToast(props: {
                       ))}
                     </select>
                     <Input
-                      value={c.content}
+                      value={getMessageTextContent(c)}
                       type="text"
                       className={chatStyle["context-content"]}
                       rows={1}
@@ -252,7 +274,9 @@ function PromptToast(props: {
                   </label>
                 </div>
                 <div className={chatStyle["memory-prompt-content"]}>
-                  {session.memoryPrompt || Locale.Memory.EmptyContent}
+                  {memoryTask
+                    ? memoryTask.content || Locale.Memory.Summarizing
+                    : session.memoryPrompt || Locale.Memory.EmptyContent}
                 </div>
               </div>
             </>
@@ -263,6 +287,34 @@ function PromptToast(props: {
   );
 }
 
+// background summary steps of a session, each can be cancelled
+function SummaryStatus(props: { sessionId: number }) {
+  const [tasks, cancel] = useSummaryStore((state) => [
+    state.tasks,
+    state.cancel,
+  ]);
+
+  return (
+    <>
+      {tasks
+        .filter((task) => task.sessionId === props.sessionId)
+        .map((task) => (
+          <span key={task.step} className={styles["chat-summary-status"]}>
+            {task.step === "topic"
+              ? Locale.Memory.Naming
+              : Locale.Memory.Summarizing}
+            <span
+              className={styles["chat-summary-cancel"]}
+              onClick={() => cancel(props.sessionId, task.step)}
+            >
+              {Locale.Memory.Cancel}
+            </span>
+          </span>
+        ))}
+    </>
+  );
+}
+
 function useSubmitHandler() {
   const config = useChatStore((state) => state.config);
   const submitKey = config.submitKey;
@@ -311,6 +363,213 @@ export function PromptHints(props: {
   );
 }
 
+const FILTER_CATEGORY_NAMES = {
+  hate: "Hate",
+  sexual: "Sexual",
+  violence: "Violence",
+  self_harm: "SelfHarm",
+} as const;
+
+const FILTER_SEVERITY_NAMES = {
+  safe: "Safe",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+} as const;
+
+// categories that fired, e.g. "Violence (medium, filtered)"
+function describeFilterResults(results?: ContentFilterResults) {
+  const locale = Locale.Chat.ContentFilter;
+  return Object.entries(results ?? {})
+    .filter(([, r]) => r.filtered || r.severity !== "safe")
+    .map(([category, r]) => {
+      const name =
+        locale.Categories[FILTER_CATEGORY_NAMES[category as FilterCategory]];
+      const severity =
+        locale.Severities[FILTER_SEVERITY_NAMES[r.severity as FilterSeverity]];
+      return `${name} (${severity}${r.filtered ? `, ${locale.Filtered}` : ""})`;
+    })
+    .join(", ");
+}
+
+function BranchNavigation(props: {
+  message: Message;
+  onSwitch: (to: number) => void;
+}) {
+  const current = props.message.forkIndex ?? 0;
+  const count = countBranches(props.message);
+
+  return (
+    <div className={styles["chat-message-branches"]}>
+      <span
+        className={styles["chat-message-branch-switch"]}
+        title={Locale.Chat.Branch.Previous}
+        onClick={() => current > 0 && props.onSwitch(current - 1)}
+      >
+        {"<"}
+      </span>
+      {current + 1}/{count}
+      <span
+        className={styles["chat-message-branch-switch"]}
+        title={Locale.Chat.Branch.Next}
+        onClick={() => current < count - 1 && props.onSwitch(current + 1)}
+      >
+        {">"}
+      </span>
+    </div>
+  );
+}
+
+export function MessageNotice(props: {
+  message: Pick<Message, "finishReason" | "contentFilter" | "attachments">;
+}) {
+  const { finishReason, contentFilter, attachments } = props.message;
+  const prompt = describeFilterResults(contentFilter?.prompt);
+  const completion = describeFilterResults(contentFilter?.completion);
+  const notices = [
+    finishReason === "length" && Locale.Chat.Finish.Length,
+    finishReason === "content_filter" && Locale.Chat.Finish.ContentFilter,
+    prompt && `${Locale.Chat.ContentFilter.Prompt} ${prompt}`,
+    completion && `${Locale.Chat.ContentFilter.Completion} ${completion}`,
+    attachments &&
+      attachments.length > 0 &&
+      Locale.Chat.Attachments.Used(attachments.join(", ")),
+  ].filter((v) => !!v);
+
+  if (notices.length === 0) return null;
+
+  return (
+    <div className={styles["chat-message-notice"]}>
+      {notices.map((notice, i) => (
+        <div key={i}>{notice}</div>
+      ))}
+    </div>
+  );
+}
+
+export function ToolInvocation(props: { call: ToolCall; result?: Message }) {
+  const { name, arguments: args } = props.call.function;
+  let prettyArgs = args;
+  try {
+    prettyArgs = JSON.stringify(JSON.parse(args), null, 2);
+  } catch {}
+
+  return (
+    <details className={styles["chat-message-tool"]}>
+      <summary>{Locale.Chat.Tools.Call(name)}</summary>
+      <div className={styles["chat-message-tool-title"]}>
+        {Locale.Chat.Tools.Arguments}
+      </div>
+      <pre>{prettyArgs}</pre>
+      <div className={styles["chat-message-tool-title"]}>
+        {Locale.Chat.Tools.Result}
+      </div>
+      <pre>
+        {!props.result || props.result.streaming
+          ? Locale.Chat.Tools.Running
+          : getMessageTextContent(props.result)}
+      </pre>
+    </details>
+  );
+}
+
+function getCitationId(messageId: number, number: number) {
+  return `citation-${messageId}-${number}`;
+}
+
+// [n] in an answer links to the source it cites
+function linkCitations(text: string, messageId: number, citations: Citation[]) {
+  return text.replace(/\[(\d+)\](?!\()/g, (match, number) =>
+    citations.some((c) => c.number === Number(number))
+      ? `[[${number}]](#${getCitationId(messageId, Number(number))})`
+      : match,
+  );
+}
+
+export function MessageCitations(props: {
+  messageId: number;
+  citations: Citation[];
+}) {
+  return (
+    <div className={styles["chat-message-citations"]}>
+      <div className={styles["chat-message-citations-title"]}>
+        {Locale.Knowledge.Sources}
+      </div>
+      {props.citations.map((citation) => (
+        <details
+          key={citation.number}
+          id={getCitationId(props.messageId, citation.number)}
+          className={styles["chat-message-citation"]}
+        >
+          <summary>
+            [{citation.number}] {citation.name} ({citation.index + 1})
+          </summary>
+          <pre>{citation.text}</pre>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+// the candidates of a reply side by side, picked once they are all done
+function CandidateList(props: {
+  candidates: Candidate[];
+  fontSize: number;
+  onPick?: (which: number) => void;
+}) {
+  return (
+    <div className={styles["chat-candidates"]}>
+      {props.candidates.map((candidate, i) => (
+        <div className={styles["chat-candidate"]} key={i}>
+          <div className={styles["chat-candidate-header"]}>
+            <span className={styles["chat-candidate-title"]}>
+              {Locale.Chat.Compare.Candidate(
+                i + 1,
+                candidate.model,
+                candidate.temperature,
+              )}
+            </span>
+            {props.onPick && !candidate.isError && (
+              <span
+                className={styles["chat-candidate-pick"]}
+                onClick={() => props.onPick?.(i)}
+              >
+                {Locale.Chat.Compare.Pick}
+              </span>
+            )}
+          </div>
+          {candidate.streaming && candidate.content.length === 0 ? (
+            <LoadingIcon />
+          ) : (
+            <div
+              className="markdown-body"
+              style={{ fontSize: `${props.fontSize}px` }}
+            >
+              <Markdown content={candidate.content} />
+            </div>
+          )}
+          {!candidate.streaming && (
+            <MessageNotice
+              message={{
+                finishReason: candidate.finishReason,
+                contentFilter: { completion: candidate.contentFilter },
+              }}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function showImageModal(url: string) {
+  showModal({
+    title: Locale.Chat.Images.Title,
+    // eslint-disable-next-line @next/next/no-img-element
+    children: <img src={url} alt="" className={styles["chat-image-preview"]} />,
+  });
+}
+
 function useScrollToBottom() {
   // for auto-scroll
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -343,10 +602,24 @@ export function Chat(props: {
     state.currentSessionIndex,
   ]);
   const fontSize = useChatStore((state) => state.config.fontSize);
+  const model = useChatStore((state) => state.getModelConfig().model);
+  const visionEnabled = useModelStore(
+    (state) => !!state.getModel(model)?.vision,
+  );
+  const contextWindow = useModelStore(
+    (state) => state.getModel(model)?.contextWindow ?? 4096,
+  );
+  const maxTokens = useChatStore((state) => state.getModelConfig().max_tokens);
+  const tokenLimit = contextWindow - getReplyTokens(maxTokens, contextWindow);
 
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
   const [userInput, setUserInput] = useState("");
+  const [attachImages, setAttachImages] = useState<string[]>([]);
   const [beforeInput, setBeforeInput] = useState("");
+  // index of the user message being edited, sending it starts a new branch
+  const [editingIndex, setEditingIndex] = useState<number>();
   const [isLoading, setIsLoading] = useState(false);
   const { submitKey, shouldSubmit } = useSubmitHandler();
   const { scrollRef, setAutoScroll } = useScrollToBottom();
@@ -408,16 +681,92 @@ export function Chat(props: {
 
   // submit user input
   const onUserSubmit = () => {
-    if (userInput.length <= 0) return;
+    if (userInput.length <= 0 && attachImages.length === 0) return;
     setIsLoading(true);
-    chatStore.onUserInput(userInput).then(() => setIsLoading(false));
+    chatStore
+      .onUserInput(
+        userInput,
+        attachImages,
+        editingIndex === undefined
+          ? undefined
+          : chatStore.branchSession(editingIndex),
+      )
+      .then(() => setIsLoading(false));
+    setEditingIndex(undefined);
     setBeforeInput(userInput);
     setUserInput("");
+    setAttachImages([]);
     setPromptHints([]);
     if (!isMobileScreen()) inputRef.current?.focus();
     setAutoScroll(true);
   };
 
+  // attach images from paste, drop or the file picker
+  const addImages = (files: File[]) => {
+    const images = files.filter((file) => file.type.startsWith("image/"));
+    if (!visionEnabled || images.length === 0) return false;
+
+    Promise.all(images.map((file) => compressImage(file)))
+      .then((urls) => setAttachImages((prev) => prev.concat(urls)))
+      .catch((e) => {
+        console.error("[Images] ", e);
+        showToast(Locale.Chat.Images.Failed);
+      });
+    return true;
+  };
+
+  // extract the text of documents from drop or the file picker
+  const addAttachments = (files: File[]) => {
+    const documents = files.filter(isSupportedFile);
+    if (documents.length === 0) return false;
+
+    documents.forEach((file) =>
+      createAttachment(file, model)
+        .then((attachment) =>
+          chatStore.updateCurrentSession((session) =>
+            session.attachments.push(attachment),
+          ),
+        )
+        .catch((e) => {
+          console.error("[Attachments] ", e);
+          showToast(Locale.Chat.Attachments.Failed(file.name));
+        }),
+    );
+    return true;
+  };
+
+  // tokens of the request the input would be sent with
+  const [tokenCount, setTokenCount] = useState(0);
+  const updateTokenCount = useDebouncedCallback(
+    () => {
+      const userMessage = createMessage({
+        role: "user",
+        content: createContent(userInput, attachImages),
+      });
+      setTokenCount(
+        countMessagesTokens(
+          chatStore.getMessagesWithMemory(userMessage).concat(userMessage),
+          model,
+        ),
+      );
+    },
+    300,
+    { leading: true, trailing: true },
+  );
+  useEffect(() => {
+    updateTokenCount();
+  }, [
+    userInput,
+    attachImages,
+    model,
+    session.messages.length,
+    session.attachments.length,
+    updateTokenCount,
+  ]);
+  useEffect(() => {
+    loadTokenizer().then(() => updateTokenCount());
+  }, [updateTokenCount]);
+
   // stop response
   const onUserStop = (messageId: number) => {
     ControllerPool.stop(sessionIndex, messageId);
@@ -439,32 +788,54 @@ export function Chat(props: {
   const onRightClick = (e: any, message: Message) => {
     // auto fill user input
     if (message.role === "user") {
-      setUserInput(message.content);
+      setUserInput(getMessageTextContent(message));
     }
 
     // copy to clipboard
-    if (selectOrCopy(e.currentTarget, message.content)) {
+    if (selectOrCopy(e.currentTarget, getMessageTextContent(message))) {
       e.preventDefault();
     }
   };
 
   const onResend = (botIndex: number) => {
-    // find last user input message and resend
+    // find last user input message and resend it, the previous reply is kept
+    // as a sibling branch
     for (let i = botIndex; i >= 0; i -= 1) {
-      if (messages[i].role === "user") {
+      const message = session.messages[i];
+      if (message.role === "user") {
         setIsLoading(true);
         chatStore
-          .onUserInput(messages[i].content)
+          .onUserInput(
+            getMessageTextContent(message),
+            getMessageImages(message),
+            chatStore.branchSession(i),
+          )
           .then(() => setIsLoading(false));
-        chatStore.updateCurrentSession((session) =>
-          session.messages.splice(i, 2),
-        );
         inputRef.current?.focus();
         return;
       }
     }
   };
 
+  const onEdit = (index: number) => {
+    const message = session.messages[index];
+    setEditingIndex(index);
+    setUserInput(getMessageTextContent(message));
+    setAttachImages(getMessageImages(message));
+    inputRef.current?.focus();
+  };
+
+  const cancelEdit = () => {
+    setEditingIndex(undefined);
+    setUserInput("");
+    setAttachImages([]);
+  };
+
+  // the edited message belongs to the session it was picked in
+  useEffect(() => {
+    setEditingIndex(undefined);
+  }, [session.id]);
+
   const config = useChatStore((state) => state.config);
 
   const context: RenderMessage[] = session.context.slice();
@@ -507,6 +878,10 @@ export function Chat(props: {
     );
 
   const [showPromptModal, setShowPromptModal] = useState(false);
+  const [showKnowledgeModal, setShowKnowledgeModal] = useState(false);
+  const [showCompareModal, setShowCompareModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showConfigModal, setShowConfigModal] = useState(false);
 
   // Auto focus
   useEffect(() => {
@@ -534,6 +909,7 @@ export function Chat(props: {
           </div>
           <div className={styles["window-header-sub-title"]}>
             {Locale.Chat.SubTitle(session.messages.length)}
+            <SummaryStatus sessionId={session.id} />
           </div>
         </div>
         <div className={styles["window-actions"]}>
@@ -545,6 +921,14 @@ export function Chat(props: {
               onClick={props?.showSideBar}
             />
           </div>
+          <div className={styles["window-action-button"]}>
+            <IconButton
+              icon={<SettingsIcon />}
+              bordered
+              title={Locale.SessionConfig.Title}
+              onClick={() => setShowConfigModal(true)}
+            />
+          </div>
           <div className={styles["window-action-button"]}>
             <IconButton
               icon={<BrainIcon />}
@@ -560,12 +944,7 @@ export function Chat(props: {
               icon={<ExportIcon />}
               bordered
               title={Locale.Chat.Actions.Export}
-              onClick={() => {
-                exportMessages(
-                  session.messages.filter((msg) => !msg.isError),
-                  session.topic,
-                );
-              }}
+              onClick={() => setShowExportModal(true)}
             />
           </div>
         </div>
@@ -575,6 +954,18 @@ export function Chat(props: {
           showModal={showPromptModal}
           setShowModal={setShowPromptModal}
         />
+        {showKnowledgeModal && (
+          <KnowledgeBaseModal onClose={() => setShowKnowledgeModal(false)} />
+        )}
+        {showExportModal && (
+          <ExportModal onClose={() => setShowExportModal(false)} />
+        )}
+        {showCompareModal && (
+          <CompareModal onClose={() => setShowCompareModal(false)} />
+        )}
+        {showConfigModal && (
+          <SessionConfigModal onClose={() => setShowConfigModal(false)} />
+        )}
       </div>
 
       <div
@@ -589,6 +980,17 @@ export function Chat(props: {
       >
         {messages.map((message, i) => {
           const isUser = message.role === "user";
+          // index in session.messages, the context comes first
+          const index = i - context.length;
+          const text = getMessageTextContent(message);
+          const images = getMessageImages(message);
+          const isEmpty =
+            text.length === 0 &&
+            !message.tool_calls?.length &&
+            !message.candidates;
+
+          // shown within the assistant message that made the call
+          if (message.role === "tool") return null;
 
           return (
             <div
@@ -597,7 +999,11 @@ export function Chat(props: {
                 isUser ? styles["chat-message-user"] : styles["chat-message"]
               }
             >
-              <div className={styles["chat-message-container"]}>
+              <div
+                className={`${styles["chat-message-container"]} ${
+                  message.candidates ? styles["chat-message-compare"] : ""
+                }`}
+              >
                 <div className={styles["chat-message-avatar"]}>
                   <Avatar role={message.role} />
                 </div>
@@ -607,36 +1013,54 @@ export function Chat(props: {
                   </div>
                 )}
                 <div className={styles["chat-message-item"]}>
-                  {!isUser &&
-                    !(message.preview || message.content.length === 0) && (
-                      <div className={styles["chat-message-top-actions"]}>
-                        {message.streaming ? (
-                          <div
-                            className={styles["chat-message-top-action"]}
-                            onClick={() => onUserStop(message.id ?? i)}
-                          >
-                            {Locale.Chat.Actions.Stop}
-                          </div>
-                        ) : (
-                          <div
-                            className={styles["chat-message-top-action"]}
-                            onClick={() => onResend(i)}
-                          >
-                            {Locale.Chat.Actions.Retry}
-                          </div>
-                        )}
-
+                  {!isUser && !(message.preview || isEmpty) && (
+                    <div className={styles["chat-message-top-actions"]}>
+                      {message.streaming ? (
                         <div
                           className={styles["chat-message-top-action"]}
-                          onClick={() => copyToClipboard(message.content)}
+                          onClick={() => onUserStop(message.id ?? i)}
                         >
-                          {Locale.Chat.Actions.Copy}
+                          {Locale.Chat.Actions.Stop}
                         </div>
+                      ) : (
+                        <div
+                          className={styles["chat-message-top-action"]}
+                          onClick={() => onResend(index)}
+                        >
+                          {Locale.Chat.Actions.Retry}
+                        </div>
+                      )}
+
+                      <div
+                        className={styles["chat-message-top-action"]}
+                        onClick={() => copyToClipboard(text)}
+                      >
+                        {Locale.Chat.Actions.Copy}
                       </div>
-                    )}
-                  {(message.preview || message.content.length === 0) &&
-                  !isUser ? (
+                    </div>
+                  )}
+                  {isUser && index >= 0 && !message.preview && !isLoading && (
+                    <div className={styles["chat-message-top-actions"]}>
+                      <div
+                        className={styles["chat-message-top-action"]}
+                        onClick={() => onEdit(index)}
+                      >
+                        {Locale.Chat.Actions.Edit}
+                      </div>
+                    </div>
+                  )}
+                  {(message.preview || isEmpty) && !isUser ? (
                     <LoadingIcon />
+                  ) : message.candidates ? (
+                    <CandidateList
+                      candidates={message.candidates}
+                      fontSize={fontSize}
+                      onPick={
+                        message.streaming
+                          ? undefined
+                          : (which) => chatStore.pickCandidate(index, which)
+                      }
+                    />
                   ) : (
                     <div
                       className="markdown-body"
@@ -644,18 +1068,75 @@ export function Chat(props: {
                       onContextMenu={(e) => onRightClick(e, message)}
                       onDoubleClickCapture={() => {
                         if (!isMobileScreen()) return;
-                        setUserInput(message.content);
+                        setUserInput(text);
                       }}
                     >
-                      <Markdown content={message.content} />
+                      <Markdown
+                        content={
+                          message.citations
+                            ? linkCitations(
+                                text,
+                                message.id ?? i,
+                                message.citations,
+                              )
+                            : text
+                        }
+                      />
                     </div>
                   )}
+                  {images.length > 0 && (
+                    <div className={styles["chat-message-images"]}>
+                      {images.map((url, i) => (
+                        // data urls, nothing for next/image to optimize
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                          key={i}
+                          src={url}
+                          alt=""
+                          className={styles["chat-message-image"]}
+                          onClick={() => showImageModal(url)}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  {message.tool_calls?.map((call) => (
+                    <ToolInvocation
+                      key={call.id}
+                      call={call}
+                      result={session.messages.find(
+                        (m) => m.tool_call_id === call.id,
+                      )}
+                    />
+                  ))}
+                  {message.citations && message.citations.length > 0 && (
+                    <MessageCitations
+                      messageId={message.id ?? i}
+                      citations={message.citations}
+                    />
+                  )}
+                  {!isUser && !message.streaming && (
+                    <MessageNotice message={message} />
+                  )}
                 </div>
                 {!isUser && !message.preview && (
                   <div className={styles["chat-message-actions"]}>
                     <div className={styles["chat-message-action-date"]}>
                       {message.date.toLocaleString()}
                     </div>
+                    {index >= 0 && countBranches(message) > 1 && (
+                      <BranchNavigation
+                        message={message}
+                        onSwitch={(to) => chatStore.switchBranch(index, to)}
+                      />
+                    )}
+                  </div>
+                )}
+                {isUser && index >= 0 && countBranches(message) > 1 && (
+                  <div className={styles["chat-message-actions"]}>
+                    <BranchNavigation
+                      message={message}
+                      onSwitch={(to) => chatStore.switchBranch(index, to)}
+                    />
                   </div>
                 )}
               </div>
@@ -666,7 +1147,79 @@ export function Chat(props: {
 
       <div className={styles["chat-input-panel"]}>
         <PromptHints prompts={promptHints} onPromptSelect={onPromptSelect} />
-        <div className={styles["chat-input-panel-inner"]}>
+        {editingIndex !== undefined && (
+          <div className={styles["chat-input-editing"]}>
+            <span>{Locale.Chat.Branch.Editing}</span>
+            <span
+              className={styles["chat-input-editing-cancel"]}
+              onClick={cancelEdit}
+            >
+              {Locale.Chat.Branch.Cancel}
+            </span>
+          </div>
+        )}
+        {attachImages.length > 0 && (
+          <div className={styles["chat-input-images"]}>
+            {attachImages.map((url, i) => (
+              <div
+                key={i}
+                className={styles["chat-input-image"]}
+                style={{ backgroundImage: `url("${url}")` }}
+              >
+                <div
+                  className={styles["chat-input-image-delete"]}
+                  onClick={() =>
+                    setAttachImages(attachImages.filter((_, j) => j !== i))
+                  }
+                >
+                  <CloseIcon />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {session.attachments.length > 0 && (
+          <div className={styles["chat-input-attachments"]}>
+            {session.attachments.map((attachment) => (
+              <div
+                key={attachment.id}
+                className={styles["chat-input-attachment"]}
+                title={attachment.date}
+              >
+                <span className={styles["chat-input-attachment-name"]}>
+                  {attachment.name}
+                </span>
+                <span className={styles["chat-input-attachment-tokens"]}>
+                  {Locale.Chat.Attachments.Tokens(attachment.tokens)}
+                </span>
+                <div
+                  className={styles["chat-input-attachment-delete"]}
+                  onClick={() =>
+                    chatStore.updateCurrentSession(
+                      (session) =>
+                        (session.attachments = session.attachments.filter(
+                          (a) => a.id !== attachment.id,
+                        )),
+                    )
+                  }
+                >
+                  <CloseIcon />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div
+          className={styles["chat-input-panel-inner"]}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            const files = Array.from(e.dataTransfer.files);
+            const addedImages = addImages(files);
+            if (addAttachments(files) || addedImages) {
+              e.preventDefault();
+            }
+          }}
+        >
           <textarea
             ref={inputRef}
             className={styles["chat-input"]}
@@ -675,6 +1228,11 @@ export function Chat(props: {
             onInput={(e) => onInput(e.currentTarget.value)}
             value={userInput}
             onKeyDown={onInputKeyDown}
+            onPaste={(e) => {
+              if (addImages(Array.from(e.clipboardData.files))) {
+                e.preventDefault();
+              }
+            }}
             onFocus={() => setAutoScroll(true)}
             onBlur={() => {
               setAutoScroll(false);
@@ -682,6 +1240,79 @@ export function Chat(props: {
             }}
             autoFocus={!props?.sideBarShowing}
           />
+          <div className={styles["chat-input-actions"]}>
+            <IconButton
+              icon={<BookIcon />}
+              title={Locale.Knowledge.Title}
+              text={
+                session.knowledgeBases.length > 0
+                  ? String(session.knowledgeBases.length)
+                  : undefined
+              }
+              bordered
+              onClick={() => setShowKnowledgeModal(true)}
+            />
+            <IconButton
+              icon={<CompareIcon />}
+              title={Locale.Chat.Compare.Title}
+              text={
+                session.variants.length > 0
+                  ? String(session.variants.length)
+                  : undefined
+              }
+              bordered
+              onClick={() => setShowCompareModal(true)}
+            />
+            <IconButton
+              icon={<AttachmentIcon />}
+              title={Locale.Chat.Attachments.Attach}
+              bordered
+              onClick={() => attachmentInputRef.current?.click()}
+            />
+            <input
+              ref={attachmentInputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              hidden
+              onChange={(e) => {
+                addAttachments(Array.from(e.currentTarget.files ?? []));
+                e.currentTarget.value = "";
+              }}
+            />
+            {visionEnabled && (
+              <>
+                <IconButton
+                  icon={<ImageIcon />}
+                  title={Locale.Chat.Images.Attach}
+                  bordered
+                  onClick={() => imageInputRef.current?.click()}
+                />
+                <input
+                  ref={imageInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  hidden
+                  onChange={(e) => {
+                    addImages(Array.from(e.currentTarget.files ?? []));
+                    e.currentTarget.value = "";
+                  }}
+                />
+              </>
+            )}
+            <div
+              className={
+                styles["chat-input-tokens"] +
+                (tokenCount > tokenLimit
+                  ? ` ${styles["chat-input-tokens-over"]}`
+                  : "")
+              }
+              title={Locale.Chat.Tokens.Title}
+            >
+              {Locale.Chat.Tokens.Count(tokenCount, tokenLimit)}
+            </div>
+          </div>
           <IconButton
             icon={<SendWhiteIcon />}
             text={Locale.Chat.Send}
@@ -0,0 +1,114 @@
+import AddIcon from "../icons/add.svg";
+import CloseIcon from "../icons/close.svg";
+
+import {
+  ModalConfigValidator,
+  useChatStore,
+  useModelStore,
+  Variant,
+} from "../store";
+import Locale from "../locales";
+
+import { IconButton } from "./button";
+import { Modal } from "./ui-lib";
+import styles from "./compare.module.scss";
+
+// the models and temperatures each message of the session is sent to
+export function CompareModal(props: { onClose: () => void }) {
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
+  const modelConfig = chatStore.getModelConfig();
+  const models = useModelStore((state) => state.models);
+
+  const updateVariants = (updater: (variants: Variant[]) => Variant[]) => {
+    chatStore.updateCurrentSession((session) => {
+      session.variants = updater(session.variants);
+    });
+  };
+
+  const updateVariant = (index: number, variant: Partial<Variant>) => {
+    updateVariants((variants) =>
+      variants.map((v, i) => (i === index ? { ...v, ...variant } : v)),
+    );
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal title={Locale.Chat.Compare.Title} onClose={props.onClose}>
+        <div className={styles["compare-variants"]}>
+          {session.variants.length === 0 && (
+            <div className={styles["compare-empty"]}>
+              {Locale.Chat.Compare.Empty}
+            </div>
+          )}
+
+          {session.variants.map((variant, i) => (
+            <div className={styles["compare-variant"]} key={i}>
+              <select
+                title={Locale.Settings.Model}
+                value={ModalConfigValidator.model(variant.model)}
+                onChange={(e) =>
+                  updateVariant(i, { model: e.currentTarget.value })
+                }
+              >
+                {models.map((v) => (
+                  <option value={v.name} key={v.name}>
+                    {v.displayName}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                title={Locale.Settings.Temperature.Title}
+                min={0}
+                max={2}
+                step={0.1}
+                value={variant.temperature}
+                onChange={(e) =>
+                  updateVariant(i, {
+                    temperature: ModalConfigValidator.temperature(
+                      e.currentTarget.valueAsNumber,
+                    ),
+                  })
+                }
+              ></input>
+              <div
+                className={styles["compare-variant-delete"]}
+                title={Locale.Chat.Compare.Delete}
+                onClick={() =>
+                  updateVariants((variants) =>
+                    variants.filter((_, j) => j !== i),
+                  )
+                }
+              >
+                <CloseIcon />
+              </div>
+            </div>
+          ))}
+
+          <div className={styles["compare-footer"]}>
+            <span className={styles["compare-candidates"]}>
+              {Locale.Chat.Compare.Candidates(
+                Math.max(session.variants.length, 1) *
+                  ModalConfigValidator.n(modelConfig.n),
+              )}
+            </span>
+            <IconButton
+              icon={<AddIcon />}
+              text={Locale.Chat.Compare.Add}
+              bordered
+              onClick={() =>
+                updateVariants((variants) =>
+                  variants.concat({
+                    model: modelConfig.model,
+                    temperature: modelConfig.temperature,
+                  }),
+                )
+              }
+            />
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { renderToStaticMarkup } from "react-dom/server";
+
+import {
+  collectExportStyles,
+  ExportOptions,
+  getExportedMessages,
+  getRoleName,
+} from "../export";
+import { ChatSession, ModelConfig } from "../store";
+
+import { Markdown } from "./markdown";
+
+// The exported HTML document. Loaded when a chat is exported, it renders the
+// markdown of the messages with react-dom/server, KaTeX and highlight.js.
+
+// the page around the messages, the page styles center the app in the window
+const EXPORT_CSS = `
+body { display: block; width: auto; height: auto; margin: 0; padding: 20px; user-select: text; }
+.export-document { max-width: 760px; margin: 0 auto; }
+.export-metadata { margin-bottom: 20px; font-size: 12px; opacity: 0.6; }
+.export-config { margin-bottom: 20px; font-size: 12px; border-collapse: collapse; }
+.export-config td { padding: 2px 10px 2px 0; }
+.export-message { margin-bottom: 20px; }
+.export-message-role { margin-bottom: 5px; font-size: 12px; font-weight: bold; opacity: 0.8; }
+.export-message .markdown-body { padding: 10px; border-radius: 10px; border: var(--border-in-light); background-color: var(--white); }
+.export-message-user .markdown-body { background-color: var(--second); }
+.copy-code-button { display: none; }
+@media print { body { padding: 0; } .export-message { break-inside: avoid; } }
+`;
+
+function ExportDocument(props: {
+  session: ChatSession;
+  options: ExportOptions;
+  modelConfig: ModelConfig;
+  styles: string;
+  theme: string;
+}) {
+  const { session, options } = props;
+
+  return (
+    <html>
+      <head>
+        <meta charSet="utf-8" />
+        <title>{session.topic}</title>
+        <style
+          dangerouslySetInnerHTML={{ __html: props.styles + EXPORT_CSS }}
+        />
+      </head>
+      <body className={props.theme}>
+        <div className="export-document">
+          <h1>{session.topic}</h1>
+          <div className="export-metadata">{session.lastUpdate}</div>
+          {options.modelConfig && (
+            <table className="export-config">
+              <tbody>
+                {Object.entries(props.modelConfig).map(([key, value]) => (
+                  <tr key={key}>
+                    <td>{key}</td>
+                    <td>{JSON.stringify(value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {getExportedMessages(session, options).map((m, i) => (
+            <div key={i} className={`export-message export-message-${m.role}`}>
+              <div className="export-message-role">
+                {getRoleName(m.role)}
+                {options.timestamps && m.date ? ` · ${m.date}` : ""}
+              </div>
+              <div className="markdown-body">
+                <Markdown content={m.content} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </body>
+    </html>
+  );
+}
+
+export async function renderHtml(
+  session: ChatSession,
+  options: ExportOptions,
+  modelConfig: ModelConfig,
+) {
+  return (
+    "<!DOCTYPE html>" +
+    renderToStaticMarkup(
+      <ExportDocument
+        session={session}
+        options={options}
+        modelConfig={modelConfig}
+        styles={await collectExportStyles()}
+        theme={document.body.className}
+      />,
+    )
+  );
+}
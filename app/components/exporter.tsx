@@ -0,0 +1,147 @@
+import { useMemo, useState } from "react";
+
+import CopyIcon from "../icons/copy.svg";
+import DownloadIcon from "../icons/download.svg";
+
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportOptions,
+  getExportFilename,
+  printHtml,
+  renderPng,
+  toJson,
+  toMarkdown,
+} from "../export";
+import Locale from "../locales";
+import { useChatStore } from "../store";
+import { copyToClipboard, downloadAs } from "../utils";
+
+import { IconButton } from "./button";
+import { Modal, showToast } from "./ui-lib";
+import styles from "./exporter.module.scss";
+
+export function ExportModal(props: { onClose: () => void }) {
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
+  const modelConfig = chatStore.getModelConfig();
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [options, setOptions] = useState<ExportOptions>({
+    timestamps: false,
+    modelConfig: false,
+    context: false,
+  });
+  const [exporting, setExporting] = useState(false);
+
+  // the formats that are text are shown before they are downloaded
+  const text = useMemo(() => {
+    if (format === "markdown") {
+      return toMarkdown(session, options, modelConfig);
+    }
+    return format === "json" ? toJson(session) : "";
+  }, [format, session, options, modelConfig]);
+
+  const exportSession = async () => {
+    const filename = getExportFilename(session, format);
+    if (format === "markdown") {
+      return downloadAs(text, filename, "text/markdown;charset=utf-8");
+    }
+    if (format === "json") {
+      return downloadAs(text, filename, "application/json");
+    }
+
+    setExporting(true);
+    try {
+      // the markdown renderer is only loaded for the exports that need it
+      const { renderHtml } = await import("./export-document");
+      const html = await renderHtml(session, options, modelConfig);
+      if (format === "html") {
+        return downloadAs(html, filename, "text/html;charset=utf-8");
+      }
+      if (format === "pdf") {
+        return printHtml(html);
+      }
+      downloadAs(await renderPng(html), filename);
+    } catch (e) {
+      console.error("[Export] ", e);
+      showToast(Locale.Export.Failed);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const optionNames: (keyof ExportOptions)[] = [
+    "timestamps",
+    "modelConfig",
+    "context",
+  ];
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Export.Title}
+        onClose={props.onClose}
+        actions={[
+          text ? (
+            <IconButton
+              key="copy"
+              icon={<CopyIcon />}
+              bordered
+              text={Locale.Export.Copy}
+              onClick={() => copyToClipboard(text)}
+            />
+          ) : undefined,
+          <IconButton
+            key="download"
+            icon={<DownloadIcon />}
+            bordered
+            text={
+              format === "pdf" ? Locale.Export.Print : Locale.Export.Download
+            }
+            disabled={exporting}
+            onClick={exportSession}
+          />,
+        ].filter((action): action is JSX.Element => !!action)}
+      >
+        <div>
+          <div className={styles["export-options"]}>
+            <select
+              title={Locale.Export.Format}
+              value={format}
+              onChange={(e) => setFormat(e.currentTarget.value as ExportFormat)}
+            >
+              {EXPORT_FORMATS.map((f) => (
+                <option value={f} key={f}>
+                  {Locale.Export.Formats[f]}
+                </option>
+              ))}
+            </select>
+            {optionNames.map((name) => (
+              <label key={name} className={styles["export-option"]}>
+                <input
+                  type="checkbox"
+                  checked={format === "json" || options[name]}
+                  disabled={format === "json"}
+                  onChange={(e) =>
+                    setOptions({ ...options, [name]: e.currentTarget.checked })
+                  }
+                ></input>
+                {Locale.Export.Options[name]}
+              </label>
+            ))}
+          </div>
+
+          {text ? (
+            <div className="markdown-body">
+              <pre className={styles["export-content"]}>{text}</pre>
+            </div>
+          ) : (
+            <div className={styles["export-hint"]}>
+              {Locale.Export.Hints[format as keyof typeof Locale.Export.Hints]}
+            </div>
+          )}
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import LoadingIcon from "../icons/three-dots.svg";
 import CloseIcon from "../icons/close.svg";
 
 import { useChatStore } from "../store";
+import { startSync } from "../store/sync";
 import { isMobileScreen } from "../utils";
 import Locale from "../locales";
 import { Chat } from "./chat";
@@ -79,8 +80,10 @@ function useSwitchTheme() {
 const useHasHydrated = () => {
   const [hasHydrated, setHasHydrated] = useState<boolean>(false);
 
+  // the chat store is read from IndexedDB after the first render
   useEffect(() => {
-    setHasHydrated(true);
+    setHasHydrated(useChatStore.persist.hasHydrated());
+    return useChatStore.persist.onFinishHydration(() => setHasHydrated(true));
   }, []);
 
   return hasHydrated;
@@ -103,6 +106,7 @@ function _Home() {
   const config = useChatStore((state) => state.config);
 
   useSwitchTheme();
+  useEffect(() => startSync(), []);
 
   if (loading) {
     return <Loading />;
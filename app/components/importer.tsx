@@ -0,0 +1,101 @@
+import { useState } from "react";
+
+import AddIcon from "../icons/add.svg";
+import MenuIcon from "../icons/menu.svg";
+
+import Locale from "../locales";
+import { ChatSession, useChatStore } from "../store";
+
+import { IconButton } from "./button";
+import { Modal, showToast } from "./ui-lib";
+import styles from "./importer.module.scss";
+
+// the imported conversations to pick from, the ones already here are left
+// unchecked and replaced when checked
+export function ImportModal(props: {
+  sessions: ChatSession[];
+  onClose: () => void;
+}) {
+  const chatStore = useChatStore();
+  const exists = (session: ChatSession) =>
+    chatStore.sessions.some((s) => s.id === session.id);
+  const [selected, setSelected] = useState(
+    () => new Set(props.sessions.filter((s) => !exists(s)).map((s) => s.id)),
+  );
+
+  const toggle = (id: number) => {
+    const next = new Set(selected);
+    next.has(id) ? next.delete(id) : next.add(id);
+    setSelected(next);
+  };
+  const allSelected = selected.size === props.sessions.length;
+
+  const importSessions = () => {
+    chatStore.applyRemoteSessions(
+      props.sessions.filter((s) => selected.has(s.id)),
+      [],
+    );
+    showToast(Locale.Import.Imported(selected.size));
+    props.onClose();
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Import.Title}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="select"
+            icon={<MenuIcon />}
+            text={
+              allSelected ? Locale.Import.SelectNone : Locale.Import.SelectAll
+            }
+            bordered
+            onClick={() =>
+              setSelected(
+                new Set(allSelected ? [] : props.sessions.map((s) => s.id)),
+              )
+            }
+          />,
+          <IconButton
+            key="import"
+            icon={<AddIcon />}
+            text={Locale.Import.Confirm(selected.size)}
+            bordered
+            disabled={selected.size === 0}
+            onClick={importSessions}
+          />,
+        ]}
+      >
+        <div className={styles["import-sessions"]}>
+          {props.sessions.length === 0 && (
+            <div className={styles["import-empty"]}>{Locale.Import.Empty}</div>
+          )}
+
+          {props.sessions.map((session) => (
+            <label className={styles["import-session"]} key={session.id}>
+              <input
+                type="checkbox"
+                checked={selected.has(session.id)}
+                onChange={() => toggle(session.id)}
+              ></input>
+              <div className={styles["import-session-info"]}>
+                <div className={styles["import-session-topic"]}>
+                  {session.topic}
+                </div>
+                <div className={styles["import-session-summary"]}>
+                  {Locale.Import.Summary(
+                    session.messages.length,
+                    session.lastUpdate,
+                  )}
+                  {exists(session) && ` · ${Locale.Import.Exists}`}
+                </div>
+              </div>
+            </label>
+          ))}
+        </div>
+      </Modal>
+    </div>
+  );
+}
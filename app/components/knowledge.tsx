@@ -0,0 +1,202 @@
+import { useRef, useState } from "react";
+
+import AddIcon from "../icons/add.svg";
+import DeleteIcon from "../icons/delete.svg";
+import CloseIcon from "../icons/close.svg";
+import BookIcon from "../icons/book.svg";
+
+import { useChatStore, useModelStore } from "../store";
+import { useKnowledgeStore } from "../store/knowledge";
+import { ATTACHMENT_ACCEPT } from "../attachments";
+import Locale from "../locales";
+
+import { IconButton } from "./button";
+import { Modal, showToast } from "./ui-lib";
+import styles from "./knowledge.module.scss";
+
+export function KnowledgeBaseModal(props: { onClose: () => void }) {
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
+  const knowledgeStore = useKnowledgeStore();
+  const embeddingModels = useModelStore((state) => state.embeddingModels);
+
+  const [name, setName] = useState("");
+  const [model, setModel] = useState("");
+  const [indexing, setIndexing] = useState<{ base: number; name: string }[]>(
+    [],
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadBase = useRef<number>();
+
+  const toggleBase = (id: number, enabled: boolean) => {
+    chatStore.updateCurrentSession((session) => {
+      session.knowledgeBases = session.knowledgeBases
+        .filter((v) => v !== id)
+        .concat(enabled ? [id] : []);
+    });
+  };
+
+  const createBase = () => {
+    const base = knowledgeStore.create(
+      name.trim(),
+      model || embeddingModels[0],
+    );
+    toggleBase(base.id, true);
+    setName("");
+  };
+
+  const removeBase = (id: number, name: string) => {
+    if (!confirm(Locale.Knowledge.DeleteConfirm(name))) return;
+    toggleBase(id, false);
+    knowledgeStore.remove(id).catch((e) => console.error("[Knowledge] ", e));
+  };
+
+  const addDocuments = (base: number, files: File[]) => {
+    files.forEach((file) => {
+      const job = { base, name: file.name };
+      setIndexing((prev) => prev.concat(job));
+      knowledgeStore
+        .addDocument(base, file)
+        .catch((e) => {
+          console.error("[Knowledge] ", e);
+          showToast(Locale.Knowledge.Failed(file.name));
+        })
+        .finally(() => setIndexing((prev) => prev.filter((v) => v !== job)));
+    });
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal title={Locale.Knowledge.Title} onClose={props.onClose}>
+        <div className={styles["knowledge-bases"]}>
+          {knowledgeStore.bases.length === 0 && (
+            <div className={styles["knowledge-empty"]}>
+              {Locale.Knowledge.Empty}
+            </div>
+          )}
+
+          {knowledgeStore.bases.map((base) => (
+            <div className={styles["knowledge-base"]} key={base.id}>
+              <div className={styles["knowledge-base-header"]}>
+                <input
+                  type="checkbox"
+                  title={Locale.Knowledge.Use}
+                  checked={session.knowledgeBases.includes(base.id)}
+                  onChange={(e) => toggleBase(base.id, e.currentTarget.checked)}
+                ></input>
+                <div className={styles["knowledge-base-title"]}>
+                  <div className={styles["knowledge-base-name"]}>
+                    {base.name}
+                  </div>
+                  <div className={styles["knowledge-base-sub-title"]}>
+                    {base.model} ·{" "}
+                    {Locale.Knowledge.Documents(base.documents.length)}
+                  </div>
+                </div>
+                <IconButton
+                  icon={<AddIcon />}
+                  text={Locale.Knowledge.Upload}
+                  bordered
+                  onClick={() => {
+                    uploadBase.current = base.id;
+                    fileInputRef.current?.click();
+                  }}
+                />
+                <IconButton
+                  icon={<DeleteIcon />}
+                  title={Locale.Knowledge.Delete}
+                  bordered
+                  onClick={() => removeBase(base.id, base.name)}
+                />
+              </div>
+
+              {base.documents.map((document) => (
+                <div className={styles["knowledge-document"]} key={document.id}>
+                  <div className={styles["knowledge-document-name"]}>
+                    {document.name}
+                  </div>
+                  <div className={styles["knowledge-document-info"]}>
+                    {Locale.Knowledge.Chunks(document.chunks)} ·{" "}
+                    {Locale.Chat.Attachments.Tokens(document.tokens)}
+                  </div>
+                  <div
+                    className={styles["knowledge-document-delete"]}
+                    title={Locale.Knowledge.Delete}
+                    onClick={() =>
+                      knowledgeStore
+                        .removeDocument(base.id, document.id)
+                        .catch((e) => console.error("[Knowledge] ", e))
+                    }
+                  >
+                    <CloseIcon />
+                  </div>
+                </div>
+              ))}
+
+              {indexing
+                .filter((job) => job.base === base.id)
+                .map((job, i) => (
+                  <div className={styles["knowledge-document"]} key={i}>
+                    <div className={styles["knowledge-document-name"]}>
+                      {Locale.Knowledge.Indexing(job.name)}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          ))}
+
+          {embeddingModels.length > 0 ? (
+            <div className={styles["knowledge-create"]}>
+              <input
+                type="text"
+                className={styles["knowledge-create-name"]}
+                placeholder={Locale.Knowledge.NamePlaceholder}
+                value={name}
+                onChange={(e) => setName(e.currentTarget.value)}
+              ></input>
+              <select
+                title={Locale.Knowledge.Model}
+                value={model || embeddingModels[0]}
+                onChange={(e) => setModel(e.currentTarget.value)}
+              >
+                {embeddingModels.map((v) => (
+                  <option value={v} key={v}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+              <IconButton
+                icon={<BookIcon />}
+                text={Locale.Knowledge.Create}
+                bordered
+                disabled={name.trim().length === 0}
+                onClick={createBase}
+              />
+            </div>
+          ) : (
+            <div className={styles["knowledge-empty"]}>
+              {Locale.Knowledge.NoModel}
+            </div>
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            hidden
+            onChange={(e) => {
+              if (uploadBase.current !== undefined) {
+                addDocuments(
+                  uploadBase.current,
+                  Array.from(e.currentTarget.files ?? []),
+                );
+              }
+              e.currentTarget.value = "";
+            }}
+          />
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -66,6 +66,28 @@ export function Markdown(props: { content: string }) {
       ]}
       components={{
         pre: PreCode,
+        a: ({ node, ...aProps }) => {
+          const href = aProps.href ?? "";
+          // links within the page, e.g. citations, stay in the page
+          if (!href.startsWith("#")) {
+            return <a {...aProps} />;
+          }
+          return (
+            <a
+              href={href}
+              onClick={(e) => {
+                e.preventDefault();
+                const target = document.getElementById(href.slice(1));
+                if (target instanceof HTMLDetailsElement) {
+                  target.open = true;
+                }
+                target?.scrollIntoView({ behavior: "smooth", block: "center" });
+              }}
+            >
+              {aProps.children}
+            </a>
+          );
+        },
       }}
       linkTarget={"_blank"}
     >
@@ -0,0 +1,229 @@
+import ResetIcon from "../icons/reload.svg";
+
+import {
+  ModalConfigValidator,
+  ModelConfig,
+  useChatStore,
+  useModelStore,
+} from "../store";
+import Locale from "../locales";
+
+import { IconButton } from "./button";
+import { InputRange } from "./input-range";
+import { List, ListItem, Modal } from "./ui-lib";
+import styles from "./session-config.module.scss";
+
+function ConfigItem(props: {
+  title: string;
+  overridden: boolean;
+  onReset: () => void;
+  children: JSX.Element;
+}) {
+  return (
+    <ListItem>
+      <div className={styles["session-config-title"]}>
+        <div>{props.title}</div>
+        {props.overridden && (
+          <div
+            className={styles["session-config-reset"]}
+            onClick={props.onReset}
+          >
+            {Locale.SessionConfig.Reset}
+          </div>
+        )}
+      </div>
+      {props.children}
+    </ListItem>
+  );
+}
+
+// the model config of the current session, a field changed here overrides the
+// global one of the settings for this session only
+export function SessionConfigModal(props: { onClose: () => void }) {
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
+  const modelConfig = chatStore.getModelConfig();
+  const models = useModelStore((state) => state.models);
+  const currentModel = models.find((m) => m.name === modelConfig.model);
+
+  const setOverride = <K extends keyof ModelConfig>(
+    key: K,
+    value: ModelConfig[K],
+  ) => {
+    chatStore.updateCurrentSession((session) => {
+      session.modelConfig = { ...session.modelConfig, [key]: value };
+    });
+  };
+
+  const resetOverride = (key: keyof ModelConfig) => {
+    chatStore.updateCurrentSession((session) => {
+      const modelConfig = { ...session.modelConfig };
+      delete modelConfig[key];
+      session.modelConfig = modelConfig;
+    });
+  };
+
+  const itemProps = (name: keyof ModelConfig) => ({
+    overridden: name in session.modelConfig,
+    onReset: () => resetOverride(name),
+  });
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.SessionConfig.Title}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="reset"
+            icon={<ResetIcon />}
+            text={Locale.SessionConfig.ResetAll}
+            bordered
+            onClick={() =>
+              chatStore.updateCurrentSession(
+                (session) => (session.modelConfig = {}),
+              )
+            }
+          />,
+        ]}
+      >
+        <List>
+          <ConfigItem {...itemProps("model")} title={Locale.Settings.Model}>
+            <select
+              value={ModalConfigValidator.model(modelConfig.model)}
+              onChange={(e) =>
+                setOverride(
+                  "model",
+                  ModalConfigValidator.model(e.currentTarget.value),
+                )
+              }
+            >
+              {models.map((v) => (
+                <option value={v.name} key={v.name}>
+                  {v.displayName}
+                </option>
+              ))}
+            </select>
+          </ConfigItem>
+          <ConfigItem
+            {...itemProps("temperature")}
+            title={Locale.Settings.Temperature.Title}
+          >
+            <InputRange
+              value={modelConfig.temperature.toFixed(1)}
+              min="0"
+              max="2"
+              step="0.1"
+              onChange={(e) =>
+                setOverride(
+                  "temperature",
+                  ModalConfigValidator.temperature(
+                    e.currentTarget.valueAsNumber,
+                  ),
+                )
+              }
+            ></InputRange>
+          </ConfigItem>
+          <ConfigItem
+            {...itemProps("top_p")}
+            title={Locale.Settings.TopP.Title}
+          >
+            <InputRange
+              value={modelConfig.top_p.toFixed(2)}
+              min="0"
+              max="1"
+              step="0.05"
+              onChange={(e) =>
+                setOverride(
+                  "top_p",
+                  ModalConfigValidator.top_p(e.currentTarget.valueAsNumber),
+                )
+              }
+            ></InputRange>
+          </ConfigItem>
+          <ConfigItem
+            {...itemProps("max_tokens")}
+            title={Locale.Settings.MaxTokens.Title}
+          >
+            <input
+              type="number"
+              min={100}
+              max={currentModel?.maxTokens ?? 32000}
+              value={modelConfig.max_tokens}
+              onChange={(e) =>
+                setOverride(
+                  "max_tokens",
+                  Math.min(
+                    ModalConfigValidator.max_tokens(
+                      e.currentTarget.valueAsNumber,
+                    ),
+                    currentModel?.maxTokens ?? Infinity,
+                  ),
+                )
+              }
+            ></input>
+          </ConfigItem>
+          <ConfigItem
+            {...itemProps("presence_penalty")}
+            title={Locale.Settings.PresencePenlty.Title}
+          >
+            <InputRange
+              value={modelConfig.presence_penalty.toFixed(1)}
+              min="-2"
+              max="2"
+              step="0.5"
+              onChange={(e) =>
+                setOverride(
+                  "presence_penalty",
+                  ModalConfigValidator.presence_penalty(
+                    e.currentTarget.valueAsNumber,
+                  ),
+                )
+              }
+            ></InputRange>
+          </ConfigItem>
+          <ConfigItem
+            {...itemProps("frequency_penalty")}
+            title={Locale.Settings.FrequencyPenalty.Title}
+          >
+            <InputRange
+              value={modelConfig.frequency_penalty.toFixed(1)}
+              min="-2"
+              max="2"
+              step="0.5"
+              onChange={(e) =>
+                setOverride(
+                  "frequency_penalty",
+                  ModalConfigValidator.frequency_penalty(
+                    e.currentTarget.valueAsNumber,
+                  ),
+                )
+              }
+            ></InputRange>
+          </ConfigItem>
+          <ConfigItem
+            {...itemProps("response_format")}
+            title={Locale.Settings.ResponseFormat.Title}
+          >
+            <select
+              value={modelConfig.response_format}
+              onChange={(e) =>
+                setOverride(
+                  "response_format",
+                  ModalConfigValidator.response_format(e.currentTarget.value),
+                )
+              }
+            >
+              <option value="text">
+                {Locale.Settings.ResponseFormat.Text}
+              </option>
+              <option value="json_object">
+                {Locale.Settings.ResponseFormat.Json}
+              </option>
+            </select>
+          </ConfigItem>
+        </List>
+      </Modal>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, HTMLProps } from "react";
+import { useState, useEffect, useMemo, useRef, HTMLProps } from "react";
 
 import EmojiPicker, { Theme as EmojiTheme } from "emoji-picker-react";
 
@@ -10,6 +10,8 @@ import ClearIcon from "../icons/clear.svg";
 import EditIcon from "../icons/edit.svg";
 import EyeIcon from "../icons/eye.svg";
 import EyeOffIcon from "../icons/eye-off.svg";
+import DownloadIcon from "../icons/download.svg";
+import ExportIcon from "../icons/export.svg";
 
 import { List, ListItem, Popover, showToast } from "./ui-lib";
 
@@ -18,19 +20,28 @@ import {
   SubmitKey,
   useChatStore,
   Theme,
-  ALL_MODELS,
   // useUpdateStore,
   useAccessStore,
   ModalConfigValidator,
+  useModelStore,
+  limitNumber,
+  MAX_CANDIDATES,
+  ChatSession,
 } from "../store";
 import { Avatar } from "./chat";
 
 import Locale, { AllLangs, changeLang, getLang } from "../locales";
-import { getCurrentVersion, getEmojiUrl } from "../utils";
+import { downloadAs, getCurrentVersion, getEmojiUrl } from "../utils";
 import Link from "next/link";
 // import { UPDATE_URL } from "../constant";
 import { SearchService, usePromptStore } from "../store/prompt";
-import { requestUsage } from "../requests";
+import { useSyncStore } from "../store/sync";
+import { createBackup, readBackup, RestoredData } from "../backup";
+import { RestoreModal } from "./backup";
+import { parseImport } from "../importer";
+import { ImportModal } from "./importer";
+import { requestSession, requestUsage } from "../requests";
+import type { UsageReport } from "../api/usage";
 import { ErrorBoundary } from "./error";
 import { InputRange } from "./input-range";
 
@@ -71,6 +82,62 @@ function PasswordInput(props: HTMLProps<HTMLInputElement>) {
   );
 }
 
+// edited as text, parsed and saved once the input loses focus
+function ParsedInput<T>(props: {
+  value: T;
+  format: (value: T) => string;
+  parse: (text: string) => T; // throws on invalid text
+  placeholder?: string;
+  onChange: (value: T) => void;
+}) {
+  const [text, setText] = useState(props.format(props.value));
+
+  useEffect(() => {
+    setText(props.format(props.value));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [props.value]);
+
+  return (
+    <input
+      type="text"
+      value={text}
+      placeholder={props.placeholder}
+      onChange={(e) => setText(e.currentTarget.value)}
+      onBlur={() => {
+        try {
+          props.onChange(props.parse(text));
+        } catch {
+          showToast(Locale.Settings.InvalidValue);
+          setText(props.format(props.value));
+        }
+      }}
+    ></input>
+  );
+}
+
+// stop sequences are separated by commas, \n stands for a line break
+function formatStop(stop: string[]) {
+  return stop.map((v) => v.replace(/\n/g, "\\n")).join(", ");
+}
+
+function parseStop(text: string) {
+  return ModalConfigValidator.stop(
+    text.split(",").map((v) => v.trim().replace(/\\n/g, "\n")),
+  );
+}
+
+function parseLogitBias(text: string) {
+  const value = text.trim() ? JSON.parse(text) : {};
+  if (
+    typeof value !== "object" ||
+    Array.isArray(value) ||
+    Object.values(value).some((v) => typeof v !== "number")
+  ) {
+    throw Error("not a map of token ids to numbers");
+  }
+  return ModalConfigValidator.logit_bias(value);
+}
+
 export function Settings(props: { closeSettings: () => void }) {
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [config, updateConfig, resetConfig, clearAllData, clearSessions] =
@@ -95,10 +162,7 @@ export function Settings(props: { closeSettings: () => void }) {
   //   });
   // }
 
-  const [usage, setUsage] = useState<{
-    used?: number;
-    subscription?: number;
-  }>();
+  const [usage, setUsage] = useState<UsageReport>();
   const [loadingUsage, setLoadingUsage] = useState(false);
   function checkUsage() {
     setLoadingUsage(true);
@@ -110,17 +174,75 @@ export function Settings(props: { closeSettings: () => void }) {
   }
 
   const accessStore = useAccessStore();
+  const syncStore = useSyncStore();
+
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [restoredData, setRestoredData] = useState<RestoredData>();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importedSessions, setImportedSessions] = useState<ChatSession[]>();
+
+  function exportBackup() {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadAs(
+      JSON.stringify(createBackup()),
+      `chat-backup-${date}.json`,
+      "application/json",
+    );
+  }
+
+  async function importBackup(file: File) {
+    try {
+      setRestoredData(await readBackup(await file.text()));
+    } catch (e) {
+      console.error("[Backup] ", e);
+      showToast(Locale.Backup.Invalid);
+    }
+  }
+
+  async function importChats(file: File) {
+    try {
+      setImportedSessions(await parseImport(await file.text()));
+    } catch (e) {
+      console.error("[Import] ", e);
+      showToast(Locale.Import.Invalid);
+    }
+  }
   const enabledAccessControl = useMemo(
     () => accessStore.enabledAccessControl(),
     // eslint-disable-next-line react-hooks/exhaustive-deps
     [],
   );
 
+  const models = useModelStore((state) => state.models);
+  const currentModel = models.find((m) => m.name === config.modelConfig.model);
+
+  const enabledSSO = useMemo(
+    () => accessStore.enabledSSO(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [],
+  );
+  const [user, setUser] = useState<{ id: string; name: string } | null>();
+  useEffect(() => {
+    if (!enabledSSO) return;
+    requestSession()
+      .then((res) => setUser(res.user))
+      .catch(() => setUser(null));
+  }, [enabledSSO]);
+
   const promptStore = usePromptStore();
   const builtinCount = SearchService.count.builtin;
   const customCount = promptStore.prompts.size ?? 0;
 
-  const showUsage = !!accessStore.token || !!accessStore.accessCode;
+  const showUsage =
+    (!enabledAccessControl && !enabledSSO) ||
+    !!accessStore.token ||
+    !!accessStore.accessCode ||
+    !!user;
+
+  useEffect(() => {
+    showUsage && checkUsage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showUsage]);
 
   // useEffect(() => {
   //   checkUpdate();
@@ -360,6 +482,29 @@ export function Settings(props: { closeSettings: () => void }) {
           </SettingItem>
         </List> */}
         <List>
+          {enabledSSO ? (
+            <SettingItem
+              title={Locale.Settings.Account.Title}
+              subTitle={
+                user
+                  ? Locale.Settings.Account.SubTitle(user.name || user.id)
+                  : Locale.Settings.Account.NotSignedIn
+              }
+            >
+              {user ? (
+                <Link href="/api/auth/logout" className="link" prefetch={false}>
+                  {Locale.Settings.Account.Logout}
+                </Link>
+              ) : (
+                <Link href="/api/auth/login" className="link" prefetch={false}>
+                  {Locale.Settings.Account.Login}
+                </Link>
+              )}
+            </SettingItem>
+          ) : (
+            <></>
+          )}
+
           {enabledAccessControl ? (
             <SettingItem
               title={Locale.Settings.AccessCode.Title}
@@ -392,15 +537,99 @@ export function Settings(props: { closeSettings: () => void }) {
             ></input>
           </SettingItem> */}
 
-          {/* <SettingItem
+          <SettingItem
+            title={Locale.Settings.Sync.Title}
+            subTitle={
+              !syncStore.enabled
+                ? Locale.Settings.Sync.Disabled
+                : syncStore.status === "idle" && syncStore.lastSync
+                ? Locale.Settings.Sync.LastSync(
+                    new Date(syncStore.lastSync).toLocaleString(),
+                  )
+                : Locale.Settings.Sync.Status[syncStore.status]
+            }
+          >
+            <div className={styles["sync-actions"]}>
+              {syncStore.enabled && syncStore.status !== "syncing" ? (
+                <IconButton
+                  icon={<ResetIcon></ResetIcon>}
+                  text={Locale.Settings.Sync.Now}
+                  onClick={syncStore.sync}
+                />
+              ) : (
+                <></>
+              )}
+              <input
+                type="checkbox"
+                checked={syncStore.enabled}
+                onChange={(e) => syncStore.setEnabled(e.currentTarget.checked)}
+              ></input>
+            </div>
+          </SettingItem>
+
+          <SettingItem
+            title={Locale.Backup.Title}
+            subTitle={Locale.Backup.SubTitle}
+          >
+            <div className={styles["backup-actions"]}>
+              <IconButton
+                icon={<DownloadIcon />}
+                text={Locale.Backup.Export}
+                onClick={exportBackup}
+              />
+              <IconButton
+                icon={<ExportIcon />}
+                text={Locale.Backup.Import}
+                onClick={() => backupInputRef.current?.click()}
+              />
+              <input
+                ref={backupInputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(e) => {
+                  const file = e.currentTarget.files?.[0];
+                  file && importBackup(file);
+                  e.currentTarget.value = "";
+                }}
+              />
+            </div>
+          </SettingItem>
+
+          <SettingItem
+            title={Locale.Import.Title}
+            subTitle={Locale.Import.SubTitle}
+          >
+            <div>
+              <IconButton
+                icon={<ExportIcon />}
+                text={Locale.Import.Choose}
+                onClick={() => importInputRef.current?.click()}
+              />
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(e) => {
+                  const file = e.currentTarget.files?.[0];
+                  file && importChats(file);
+                  e.currentTarget.value = "";
+                }}
+              />
+            </div>
+          </SettingItem>
+
+          <SettingItem
             title={Locale.Settings.Usage.Title}
             subTitle={
               showUsage
                 ? loadingUsage
                   ? Locale.Settings.Usage.IsChecking
                   : Locale.Settings.Usage.SubTitle(
-                      usage?.used ?? "[?]",
-                      usage?.subscription ?? "[?]",
+                      usage?.total.cost.toFixed(2) ?? "[?]",
+                      (usage?.total.prompt_tokens ?? 0) +
+                        (usage?.total.completion_tokens ?? 0),
                     )
                 : Locale.Settings.Usage.NoAccess
             }
@@ -414,7 +643,25 @@ export function Settings(props: { closeSettings: () => void }) {
                 onClick={checkUsage}
               />
             )}
-          </SettingItem> */}
+          </SettingItem>
+
+          <>
+            {showUsage &&
+              !loadingUsage &&
+              usage?.models.map((m) => (
+                <SettingItem
+                  key={m.model}
+                  title={m.model}
+                  subTitle={Locale.Settings.Usage.ModelUsage(
+                    m.prompt_tokens,
+                    m.completion_tokens,
+                    m.requests,
+                  )}
+                >
+                  <div>${m.cost.toFixed(2)}</div>
+                </SettingItem>
+              ))}
+          </>
 
           <SettingItem
             title={Locale.Settings.HistoryCount.Title}
@@ -435,30 +682,56 @@ export function Settings(props: { closeSettings: () => void }) {
             ></InputRange>
           </SettingItem>
 
-          {/* <SettingItem
+          <SettingItem
             title={Locale.Settings.CompressThreshold.Title}
             subTitle={Locale.Settings.CompressThreshold.SubTitle}
           >
             <input
               type="number"
               min={500}
-              max={4000}
-              value={config.compressMessageLengthThreshold}
+              max={32000}
+              step={100}
+              value={config.compressTokenThreshold}
               onChange={(e) =>
                 updateConfig(
                   (config) =>
-                    (config.compressMessageLengthThreshold =
-                      e.currentTarget.valueAsNumber),
+                    (config.compressTokenThreshold = limitNumber(
+                      e.currentTarget.valueAsNumber,
+                      500,
+                      32000,
+                      2000,
+                    )),
                 )
               }
             ></input>
-          </SettingItem> */}
+          </SettingItem>
+
+          <SettingItem
+            title={Locale.Settings.SummarizeModel.Title}
+            subTitle={Locale.Settings.SummarizeModel.SubTitle}
+          >
+            <select
+              value={config.summarizeModel}
+              onChange={(e) =>
+                updateConfig(
+                  (config) => (config.summarizeModel = e.currentTarget.value),
+                )
+              }
+            >
+              <option value="">{Locale.Settings.SummarizeModel.Default}</option>
+              {models.map((v) => (
+                <option value={v.name} key={v.name}>
+                  {v.displayName}
+                </option>
+              ))}
+            </select>
+          </SettingItem>
         </List>
 
         <List>
-          {/* <SettingItem title={Locale.Settings.Model}>
+          <SettingItem title={Locale.Settings.Model}>
             <select
-              value={config.modelConfig.model}
+              value={ModalConfigValidator.model(config.modelConfig.model)}
               onChange={(e) => {
                 updateConfig(
                   (config) =>
@@ -468,13 +741,13 @@ export function Settings(props: { closeSettings: () => void }) {
                 );
               }}
             >
-              {ALL_MODELS.map((v) => (
-                <option value={v.name} key={v.name} disabled={!v.available}>
-                  {v.name}
+              {models.map((v) => (
+                <option value={v.name} key={v.name}>
+                  {v.displayName}
                 </option>
               ))}
             </select>
-          </SettingItem> */}
+          </SettingItem>
           <SettingItem
             title={Locale.Settings.Temperature.Title}
             subTitle={Locale.Settings.Temperature.SubTitle}
@@ -502,15 +775,36 @@ export function Settings(props: { closeSettings: () => void }) {
             <input
               type="number"
               min={100}
-              max={32000}
+              max={currentModel?.maxTokens ?? 32000}
               value={config.modelConfig.max_tokens}
               onChange={(e) =>
                 updateConfig(
                   (config) =>
-                    (config.modelConfig.max_tokens =
+                    (config.modelConfig.max_tokens = Math.min(
                       ModalConfigValidator.max_tokens(
                         e.currentTarget.valueAsNumber,
-                      )),
+                      ),
+                      currentModel?.maxTokens ?? Infinity,
+                    )),
+                )
+              }
+            ></input>
+          </SettingItem>
+          <SettingItem
+            title={Locale.Settings.Candidates.Title}
+            subTitle={Locale.Settings.Candidates.SubTitle}
+          >
+            <input
+              type="number"
+              min={1}
+              max={MAX_CANDIDATES}
+              value={config.modelConfig.n}
+              onChange={(e) =>
+                updateConfig(
+                  (config) =>
+                    (config.modelConfig.n = ModalConfigValidator.n(
+                      e.currentTarget.valueAsNumber,
+                    )),
                 )
               }
             ></input>
@@ -535,8 +829,161 @@ export function Settings(props: { closeSettings: () => void }) {
               }}
             ></InputRange>
           </SettingItem>
+          <SettingItem
+            title={Locale.Settings.FrequencyPenalty.Title}
+            subTitle={Locale.Settings.FrequencyPenalty.SubTitle}
+          >
+            <InputRange
+              value={config.modelConfig.frequency_penalty?.toFixed(1)}
+              min="-2"
+              max="2"
+              step="0.5"
+              onChange={(e) => {
+                updateConfig(
+                  (config) =>
+                    (config.modelConfig.frequency_penalty =
+                      ModalConfigValidator.frequency_penalty(
+                        e.currentTarget.valueAsNumber,
+                      )),
+                );
+              }}
+            ></InputRange>
+          </SettingItem>
+          <SettingItem
+            title={Locale.Settings.TopP.Title}
+            subTitle={Locale.Settings.TopP.SubTitle}
+          >
+            <InputRange
+              value={config.modelConfig.top_p?.toFixed(2)}
+              min="0"
+              max="1"
+              step="0.05"
+              onChange={(e) => {
+                updateConfig(
+                  (config) =>
+                    (config.modelConfig.top_p = ModalConfigValidator.top_p(
+                      e.currentTarget.valueAsNumber,
+                    )),
+                );
+              }}
+            ></InputRange>
+          </SettingItem>
+          <SettingItem
+            title={Locale.Settings.Stop.Title}
+            subTitle={Locale.Settings.Stop.SubTitle}
+          >
+            <ParsedInput
+              value={config.modelConfig.stop}
+              format={formatStop}
+              parse={parseStop}
+              placeholder={Locale.Settings.Stop.Placeholder}
+              onChange={(stop) =>
+                updateConfig((config) => (config.modelConfig.stop = stop))
+              }
+            />
+          </SettingItem>
+          <SettingItem
+            title={Locale.Settings.Seed.Title}
+            subTitle={Locale.Settings.Seed.SubTitle}
+          >
+            <input
+              type="number"
+              step={1}
+              value={config.modelConfig.seed ?? ""}
+              onChange={(e) =>
+                updateConfig(
+                  (config) =>
+                    (config.modelConfig.seed = ModalConfigValidator.seed(
+                      e.currentTarget.valueAsNumber,
+                    )),
+                )
+              }
+            ></input>
+          </SettingItem>
+          <SettingItem
+            title={Locale.Settings.LogitBias.Title}
+            subTitle={Locale.Settings.LogitBias.SubTitle}
+          >
+            <ParsedInput
+              value={config.modelConfig.logit_bias}
+              format={(value) =>
+                Object.keys(value).length > 0 ? JSON.stringify(value) : ""
+              }
+              parse={parseLogitBias}
+              placeholder='{"50256": -100}'
+              onChange={(logitBias) =>
+                updateConfig(
+                  (config) => (config.modelConfig.logit_bias = logitBias),
+                )
+              }
+            />
+          </SettingItem>
+          <SettingItem
+            title={Locale.Settings.ResponseFormat.Title}
+            subTitle={Locale.Settings.ResponseFormat.SubTitle}
+          >
+            <select
+              value={config.modelConfig.response_format}
+              onChange={(e) =>
+                updateConfig(
+                  (config) =>
+                    (config.modelConfig.response_format =
+                      ModalConfigValidator.response_format(
+                        e.currentTarget.value,
+                      )),
+                )
+              }
+            >
+              <option value="text">
+                {Locale.Settings.ResponseFormat.Text}
+              </option>
+              <option value="json_object">
+                {Locale.Settings.ResponseFormat.Json}
+              </option>
+            </select>
+          </SettingItem>
+          <SettingItem
+            title={Locale.Settings.User.Title}
+            subTitle={Locale.Settings.User.SubTitle}
+          >
+            <ParsedInput
+              value={config.modelConfig.user}
+              format={(value) => value}
+              parse={ModalConfigValidator.user}
+              onChange={(user) =>
+                updateConfig((config) => (config.modelConfig.user = user))
+              }
+            />
+          </SettingItem>
+          <SettingItem
+            title={Locale.Settings.Tools.Title}
+            subTitle={Locale.Settings.Tools.SubTitle}
+          >
+            <input
+              type="checkbox"
+              checked={config.enableTools}
+              onChange={(e) =>
+                updateConfig(
+                  (config) => (config.enableTools = e.currentTarget.checked),
+                )
+              }
+            ></input>
+          </SettingItem>
         </List>
       </div>
+
+      {importedSessions && (
+        <ImportModal
+          sessions={importedSessions}
+          onClose={() => setImportedSessions(undefined)}
+        />
+      )}
+      {restoredData && (
+        <RestoreModal
+          data={restoredData}
+          onClose={() => setRestoredData(undefined)}
+        />
+      )}
     </ErrorBoundary>
   );
 }
@@ -0,0 +1,264 @@
+import { createSessionBackup } from "./backup";
+import Locale from "./locales";
+import {
+  ChatSession,
+  getMessageImages,
+  getMessageTextContent,
+  Message,
+  ModelConfig,
+} from "./store";
+
+// Exports of a session. Markdown and HTML carry what the options ask for, the
+// JSON is a backup of the session and restores it whole. PDF is printed from
+// the HTML, and the PNG is the HTML drawn through an SVG foreignObject, so
+// the images of the messages have to be data urls (they are once attached).
+
+export type ExportFormat = "markdown" | "html" | "pdf" | "json" | "png";
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  "markdown",
+  "html",
+  "pdf",
+  "json",
+  "png",
+];
+
+export interface ExportOptions {
+  timestamps: boolean;
+  modelConfig: boolean;
+  context: boolean;
+}
+
+export interface ExportedMessage {
+  role: Message["role"];
+  date: string;
+  content: string; // markdown, with the images
+}
+
+const EXPORT_WIDTH = 800;
+// canvases taller than this fail to draw in some browsers
+const MAX_CANVAS_HEIGHT = 16384;
+
+// the style rules the exported messages need, the theme, the markdown and
+// the KaTeX and highlight.js ones
+const EXPORT_SELECTOR =
+  /:root|^html|^body|^\.light|^\.dark|markdown-body|katex|hljs/;
+
+export function getRoleName(role: Message["role"]) {
+  if (role === "user") {
+    return Locale.Export.MessageFromYou;
+  }
+  return role === "system"
+    ? Locale.Export.MessageFromSystem
+    : Locale.Export.MessageFromChatGPT;
+}
+
+export function getExportedMessages(
+  session: ChatSession,
+  options: ExportOptions,
+): ExportedMessage[] {
+  return (options.context ? session.context : [])
+    .concat(session.messages.filter((m) => !m.isError))
+    .map((m) => ({
+      role: m.role,
+      date: m.date,
+      content: [getMessageTextContent(m)]
+        .concat(getMessageImages(m).map((url) => `![image](${url})`))
+        .join("\n\n")
+        .trim(),
+    }))
+    .filter((m) => m.role !== "tool" && m.content.length > 0);
+}
+
+export function getExportFilename(session: ChatSession, format: ExportFormat) {
+  const extensions: Record<ExportFormat, string> = {
+    markdown: "md",
+    html: "html",
+    pdf: "pdf",
+    json: "json",
+    png: "png",
+  };
+  return `${session.topic}.${extensions[format]}`;
+}
+
+export function toMarkdown(
+  session: ChatSession,
+  options: ExportOptions,
+  modelConfig: ModelConfig,
+) {
+  // front matter, the values are JSON which is valid YAML
+  const metadata = [
+    `title: ${JSON.stringify(session.topic)}`,
+    `date: ${JSON.stringify(session.lastUpdate)}`,
+  ].concat(
+    options.modelConfig
+      ? Object.entries(modelConfig).map(
+          ([key, value]) => `${key}: ${JSON.stringify(value)}`,
+        )
+      : [],
+  );
+
+  return [`---\n${metadata.join("\n")}\n---`, `# ${session.topic}`]
+    .concat(
+      getExportedMessages(session, options).map(
+        (m) =>
+          `## ${getRoleName(m.role)}:` +
+          (options.timestamps && m.date ? `\n\n_${m.date}_` : "") +
+          `\n\n${m.content}`,
+      ),
+    )
+    .join("\n\n");
+}
+
+export function toJson(session: ChatSession) {
+  return JSON.stringify(createSessionBackup(session), null, 2);
+}
+
+// url() in a style sheet is relative to it, not to the exported file
+function resolveUrls(cssText: string, base: string) {
+  return cssText.replace(
+    /url\((['"]?)([^'")]+)\1\)/g,
+    (match, quote, url: string) =>
+      url.startsWith("data:") ? match : `url("${new URL(url, base).href}")`,
+  );
+}
+
+// the fonts as data urls, fetched once
+const fonts = new Map<string, Promise<string>>();
+
+function fetchDataUrl(url: string) {
+  if (!fonts.has(url)) {
+    const dataUrl = fetch(url)
+      .then((res) => {
+        if (!res.ok) {
+          throw Error(`failed to fetch ${url}: ${res.status}`);
+        }
+        return res.blob();
+      })
+      .then(
+        (blob) =>
+          new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+          }),
+      );
+    // a failed fetch is tried again the next time
+    dataUrl.catch(() => fonts.delete(url));
+    fonts.set(url, dataUrl);
+  }
+  return fonts.get(url)!;
+}
+
+// The first source of a font face is the one browsers pick, it is inlined so
+// that the exported file shows the math offline. The other sources are kept
+// as they are, and so is the url when the font can not be fetched.
+async function inlineFont(cssText: string) {
+  const url = cssText.match(/url\("([^"]+)"\)/)?.[1];
+  if (!url || url.startsWith("data:")) {
+    return cssText;
+  }
+  try {
+    return cssText.replace(url, await fetchDataUrl(url));
+  } catch (e) {
+    console.error("[Export] ", e);
+    return cssText;
+  }
+}
+
+function collectRules(rules: CSSRuleList, base: string): string[] {
+  return Array.from(rules).flatMap((rule) => {
+    if (rule instanceof CSSStyleRule) {
+      return EXPORT_SELECTOR.test(rule.selectorText)
+        ? [resolveUrls(rule.cssText, base)]
+        : [];
+    }
+    if (rule instanceof CSSMediaRule) {
+      const inner = collectRules(rule.cssRules, base);
+      return inner.length > 0
+        ? [`@media ${rule.conditionText} {\n${inner.join("\n")}\n}`]
+        : [];
+    }
+    if (rule instanceof CSSFontFaceRule) {
+      return /katex/i.test(rule.cssText)
+        ? [resolveUrls(rule.cssText, base)]
+        : [];
+    }
+    return [];
+  });
+}
+
+export async function collectExportStyles() {
+  const rules = Array.from(document.styleSheets).flatMap((sheet) => {
+    try {
+      return collectRules(sheet.cssRules, sheet.href ?? location.href);
+    } catch (e) {
+      // the rules of style sheets from other origins can not be read
+      return [];
+    }
+  });
+  return (
+    await Promise.all(
+      rules.map((rule) =>
+        rule.startsWith("@font-face") ? inlineFont(rule) : rule,
+      ),
+    )
+  ).join("\n");
+}
+
+// a hidden frame of the export width, to print or measure the document
+function loadFrame(html: string) {
+  return new Promise<HTMLIFrameElement>((resolve) => {
+    const frame = document.createElement("iframe");
+    frame.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${EXPORT_WIDTH}px; height: 100px; border: none;`;
+    frame.onload = () => resolve(frame);
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+}
+
+export async function printHtml(html: string) {
+  const frame = await loadFrame(html);
+  const view = frame.contentWindow!;
+  view.onafterprint = () => frame.remove();
+  view.focus();
+  view.print();
+}
+
+export async function renderPng(html: string) {
+  const frame = await loadFrame(html);
+
+  try {
+    const root = frame.contentDocument!.documentElement;
+    const height = root.scrollHeight;
+    const scale = Math.min(2, MAX_CANVAS_HEIGHT / height);
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${EXPORT_WIDTH}" height="${height}">` +
+      `<foreignObject width="100%" height="100%">${new XMLSerializer().serializeToString(
+        root,
+      )}</foreignObject></svg>`;
+
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(Error("failed to draw the conversation"));
+      image.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(svg);
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = EXPORT_WIDTH * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext("2d")!;
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(Error("failed to encode the image")),
+      ),
+    );
+  } finally {
+    frame.remove();
+  }
+}
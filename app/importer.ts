@@ -0,0 +1,231 @@
+import md5 from "spark-md5";
+import type { ContentPart, MessageContent } from "./api/openai/typing";
+import { readBackup } from "./backup";
+import { ChatSession, createEmptySession, Message } from "./store";
+
+// Conversations of other clients turned into sessions: the conversations.json
+// of a ChatGPT data export, the stores of ChatGPT-Next-Web and its forks
+// (a localStorage dump, a sync export or the store state), and the backups
+// of this app. A ChatGPT conversation is a tree of messages, the path to the
+// message it was left at is imported.
+//
+// The ids of the sessions come from the ids of the conversations, importing
+// the same file again finds the sessions it added.
+
+interface OpenAINode {
+  id: string;
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[] };
+    metadata?: { is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface OpenAIConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  current_node?: string;
+  mapping: Record<string, OpenAINode>;
+}
+
+const ROLES: Message["role"][] = ["system", "user", "assistant"];
+
+// a number that stays the same for the same conversation
+function getSessionId(key: string) {
+  return parseInt(md5.hash(key).slice(0, 12), 16);
+}
+
+function formatDate(time?: number | string | null) {
+  if (typeof time === "string") {
+    return time;
+  }
+  return time ? new Date(time).toLocaleString() : "";
+}
+
+function createSession(
+  key: string,
+  session: Partial<ChatSession> & { messages: Message[] },
+  updatedAt: number,
+): ChatSession {
+  return {
+    ...createEmptySession(),
+    ...session,
+    id: session.id ?? getSessionId(key),
+    lastUpdate: session.lastUpdate || formatDate(updatedAt),
+    updatedAt,
+  };
+}
+
+function isOpenAIConversation(value: any): value is OpenAIConversation {
+  return typeof value?.mapping === "object" && value.mapping !== null;
+}
+
+// the path from the root to the node the conversation was left at, or to
+// its latest leaf
+function getActivePath(conversation: OpenAIConversation) {
+  const { mapping } = conversation;
+  let node = conversation.current_node
+    ? mapping[conversation.current_node]
+    : undefined;
+
+  if (!node) {
+    node = Object.values(mapping).find((n) => !n.parent || !mapping[n.parent]);
+    while (node?.children?.length) {
+      node = mapping[node.children[node.children.length - 1]];
+    }
+  }
+
+  const path: OpenAINode[] = [];
+  const visited = new Set<string>();
+  while (node && !visited.has(node.id)) {
+    visited.add(node.id);
+    path.unshift(node);
+    node = node.parent ? mapping[node.parent] : undefined;
+  }
+  return path;
+}
+
+function fromOpenAI(conversation: OpenAIConversation): ChatSession {
+  const messages = getActivePath(conversation).flatMap((node) => {
+    const message = node.message;
+    const role = message?.author?.role as Message["role"];
+    const type = message?.content?.content_type;
+    if (
+      !message ||
+      !ROLES.includes(role) ||
+      role === "system" ||
+      message.metadata?.is_visually_hidden_from_conversation ||
+      (type !== "text" && type !== "multimodal_text")
+    ) {
+      return [];
+    }
+
+    // the images of the export are files next to it, only the text is kept
+    const content = (message.content?.parts ?? [])
+      .filter((part): part is string => typeof part === "string")
+      .join("\n")
+      .trim();
+    if (!content) {
+      return [];
+    }
+
+    const time = (message.create_time ?? 0) * 1000;
+    return [
+      {
+        id: time || undefined,
+        role,
+        content,
+        date: formatDate(time),
+      } as Message,
+    ];
+  });
+
+  const key = conversation.conversation_id ?? conversation.id;
+  return createSession(
+    `openai:${key ?? JSON.stringify(Object.keys(conversation.mapping))}`,
+    {
+      topic: conversation.title || createEmptySession().topic,
+      messages,
+    },
+    (conversation.update_time ?? conversation.create_time ?? 0) * 1000,
+  );
+}
+
+function toContent(content: unknown): MessageContent | undefined {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return;
+  }
+  const parts = content.filter(
+    (part): part is ContentPart =>
+      (part?.type === "text" && typeof part.text === "string") ||
+      (part?.type === "image_url" && typeof part.image_url?.url === "string"),
+  );
+  return parts.length > 0 ? parts : undefined;
+}
+
+function toMessages(messages: unknown): Message[] {
+  if (!Array.isArray(messages)) {
+    return [];
+  }
+  return messages.flatMap((m) => {
+    const content = toContent(m?.content);
+    if (!ROLES.includes(m?.role) || content === undefined) {
+      return [];
+    }
+    return [
+      {
+        id: typeof m.id === "number" ? m.id : undefined,
+        role: m.role,
+        content,
+        date: formatDate(m.date),
+      } as Message,
+    ];
+  });
+}
+
+// a session of ChatGPT-Next-Web, the newer versions keep the context in a mask
+// and have string ids, the numbers of the older ones and of this app are kept
+function fromNextChat(session: any, index: number): ChatSession | undefined {
+  if (!Array.isArray(session?.messages)) {
+    return;
+  }
+
+  const updatedAt =
+    typeof session.lastUpdate === "number"
+      ? session.lastUpdate
+      : Date.parse(session.lastUpdate) || Date.now();
+  return createSession(
+    `next:${session.id ?? index}`,
+    {
+      id: typeof session.id === "number" ? session.id : undefined,
+      topic: String(session.topic || createEmptySession().topic),
+      memoryPrompt: String(session.memoryPrompt ?? ""),
+      context: toMessages(session.context ?? session.mask?.context),
+      messages: toMessages(session.messages),
+      lastUpdate: formatDate(session.lastUpdate),
+    },
+    updatedAt,
+  );
+}
+
+// the sessions of a store, or of its state saved as a string
+function getStoreSessions(store: any): unknown[] | undefined {
+  const value = typeof store === "string" ? JSON.parse(store) : store;
+  const state = value?.state ?? value;
+  return Array.isArray(state?.sessions) ? state.sessions : undefined;
+}
+
+export async function parseImport(text: string): Promise<ChatSession[]> {
+  const data = JSON.parse(text);
+
+  if (data?.app === "chat-next-web") {
+    return (await readBackup(text)).sessions;
+  }
+
+  if (Array.isArray(data) && data.every(isOpenAIConversation)) {
+    return data.map(fromOpenAI).filter((s) => s.messages.length > 0);
+  }
+  if (isOpenAIConversation(data)) {
+    return [fromOpenAI(data)];
+  }
+
+  const sessions =
+    getStoreSessions(data?.["chat-next-web-store"]) ??
+    getStoreSessions(data) ??
+    (Array.isArray(data) ? data : undefined);
+  if (!sessions) {
+    throw Error("unsupported format");
+  }
+  return sessions
+    .map(fromNextChat)
+    .filter((s): s is ChatSession => !!s && s.messages.length > 0);
+}
@@ -0,0 +1,189 @@
+import { extractText, splitIntoChunks } from "./attachments";
+import { requestEmbeddings } from "./requests";
+import type { KnowledgeBase, KnowledgeDocument } from "./store/knowledge";
+
+// Documents of the knowledge bases are chunked and embedded through the
+// embeddings deployment, the chunks and vectors are stored in IndexedDB. The
+// chunks closest to the user input are sent as numbered sources.
+
+export interface KnowledgeChunk {
+  id: string; // document id and chunk index
+  base: number;
+  document: number;
+  name: string;
+  index: number;
+  text: string;
+  vector: Float32Array;
+}
+
+// a source sent with a message, the number is the one the answer cites
+export interface Citation {
+  number: number;
+  name: string;
+  index: number;
+  text: string;
+  score: number;
+}
+
+const DB_NAME = "knowledge-base";
+const DB_VERSION = 1;
+const CHUNK_STORE = "chunks";
+
+export const TOP_K = 4;
+
+let database: Promise<IDBDatabase> | undefined;
+
+function openDatabase() {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(CHUNK_STORE, {
+          keyPath: "id",
+        });
+        store.createIndex("base", "base");
+        store.createIndex("document", "document");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        database = undefined;
+        reject(req.error);
+      };
+    });
+  }
+  return database;
+}
+
+async function getStore(mode: IDBTransactionMode) {
+  const db = await openDatabase();
+  return db.transaction(CHUNK_STORE, mode).objectStore(CHUNK_STORE);
+}
+
+function waitFor<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function putChunks(chunks: KnowledgeChunk[]) {
+  const store = await getStore("readwrite");
+  await Promise.all(chunks.map((chunk) => waitFor(store.put(chunk))));
+}
+
+async function getChunks(base: number) {
+  const store = await getStore("readonly");
+  return waitFor<KnowledgeChunk[]>(store.index("base").getAll(base));
+}
+
+export async function deleteChunks(index: "base" | "document", id: number) {
+  const store = await getStore("readwrite");
+  const req = store.index(index).openKeyCursor(IDBKeyRange.only(id));
+
+  await new Promise<void>((resolve, reject) => {
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) {
+        return resolve();
+      }
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function indexDocument(
+  base: KnowledgeBase,
+  file: File,
+): Promise<KnowledgeDocument> {
+  const chunks = await splitIntoChunks(await extractText(file));
+  const vectors = await requestEmbeddings(
+    chunks.map((chunk) => chunk.text),
+    base.model,
+  );
+  const document: KnowledgeDocument = {
+    // documents are indexed side by side, the time alone may repeat
+    id: Date.now() + Math.random(),
+    name: file.name,
+    size: file.size,
+    chunks: chunks.length,
+    tokens: chunks.reduce((pre, cur) => pre + cur.tokens, 0),
+    date: new Date().toLocaleString(),
+  };
+
+  await putChunks(
+    chunks.map((chunk, index) => ({
+      id: `${document.id}-${index}`,
+      base: base.id,
+      document: document.id,
+      name: file.name,
+      index,
+      text: chunk.text,
+      vector: Float32Array.from(vectors[index]),
+    })),
+  );
+
+  return document;
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA * normB) || 1);
+}
+
+// the query is embedded once per embedding model of the bases
+export async function searchKnowledge(
+  bases: KnowledgeBase[],
+  query: string,
+  topK = TOP_K,
+): Promise<Citation[]> {
+  const results: Omit<Citation, "number">[] = [];
+  // e.g. a message of images only, there is nothing to embed
+  if (!query.trim()) {
+    return [];
+  }
+
+  for (const model of new Set(bases.map((b) => b.model))) {
+    const [vector] = await requestEmbeddings([query], model);
+
+    for (const base of bases.filter((b) => b.model === model)) {
+      for (const chunk of await getChunks(base.id)) {
+        results.push({
+          name: chunk.name,
+          index: chunk.index,
+          text: chunk.text,
+          score: cosineSimilarity(vector, chunk.vector),
+        });
+      }
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map((result, i) => ({ number: i + 1, ...result }));
+}
+
+export function createKnowledgePrompt(
+  instruction: string,
+  sources: Citation[],
+) {
+  return [instruction]
+    .concat(
+      sources.map(
+        (source) =>
+          `[${source.number}] ${source.name} (${source.index + 1})\n${
+            source.text
+          }`,
+      ),
+    )
+    .join("\n\n");
+}
@@ -4,6 +4,7 @@ import "./styles/markdown.scss";
 import "./styles/highlight.scss";
 //import process from "child_process";
 import { ACCESS_CODES, IS_IN_DOCKER } from "./api/access";
+import { isOidcEnabled } from "./api/auth";
 
 let COMMIT_ID: string | undefined;
 
@@ -35,6 +36,7 @@ function Meta() {
   const metas = {
     version: COMMIT_ID ?? "unknown",
     access: ACCESS_CODES.size > 0 || IS_IN_DOCKER ? "enabled" : "disabled",
+    sso: isOidcEnabled() ? "enabled" : "disabled",
   };
 
   return (
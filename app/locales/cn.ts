@@ -4,6 +4,13 @@ const cn = {
   WIP: "该功能仍在开发中……",
   Error: {
     Unauthorized: "现在是未授权状态，请在设置页输入访问密码。",
+    NeedLogin: "请先[登录](/api/auth/login)。",
+    Quota: {
+      RequestsPerMinute: "请求过于频繁，请稍后再试。",
+      TokensPerDay: "今日的 Token 额度已用完。",
+      MonthlySpend: "本月的费用额度已用完。",
+      RetryAfter: (time: string) => `请在 ${time} 后重试。`,
+    },
   },
   ChatItem: {
     ChatItemCount: (count: number) => `${count} 条对话`,
@@ -13,13 +20,75 @@ const cn = {
     Actions: {
       ChatList: "查看消息列表",
       CompressedHistory: "查看压缩后的历史 Prompt",
-      Export: "导出聊天记录",
+      Export: "导出聊天",
       Copy: "复制",
       Stop: "停止",
       Retry: "重试",
+      Edit: "编辑",
+    },
+    ContentFilter: {
+      Blocked: "你的输入被 Azure OpenAI 内容过滤器拦截，请修改后重试。",
+      Prompt: "输入触发了内容过滤：",
+      Completion: "回复触发了内容过滤：",
+      Filtered: "已过滤",
+      Categories: {
+        Hate: "仇恨",
+        Sexual: "色情",
+        Violence: "暴力",
+        SelfHarm: "自残",
+      },
+      Severities: {
+        Safe: "安全",
+        Low: "低",
+        Medium: "中",
+        High: "高",
+      },
+    },
+    Tools: {
+      Call: (name: string) => `调用了 ${name}`,
+      Arguments: "参数",
+      Result: "结果",
+      Running: "运行中…",
+      MaxIterations: (count: number) =>
+        `已连续调用工具 ${count} 轮，自动停止。`,
+    },
+    Images: {
+      Attach: "添加图片",
+      Title: "图片",
+      Failed: "无法读取图片",
+    },
+    Attachments: {
+      Attach: "添加文件",
+      Used: (names: string) => `参考了附件：${names}`,
+      Failed: (name: string) => `无法读取文件 ${name}`,
+      Tokens: (count: number) => `${count} tokens`,
+    },
+    Branch: {
+      Previous: "上一个分支",
+      Next: "下一个分支",
+      Editing: "正在编辑消息，发送后将开启新的分支",
+      Cancel: "取消",
+    },
+    Compare: {
+      Title: "对比",
+      Empty: "消息仅发送给聊天模型，添加模型和温度以并排对比回复",
+      Add: "添加",
+      Delete: "删除",
+      Candidates: (count: number) => `每条消息 ${count} 个候选回复`,
+      Candidate: (index: number, model: string, temperature: number) =>
+        `#${index} ${model} · ${temperature}`,
+      Pick: "采用",
+    },
+    Tokens: {
+      Title: "请求的 token 数，以及上下文窗口在预留回复后可容纳的 token 数",
+      Count: (count: number, limit: number) => `${count} / ${limit} tokens`,
     },
     Rename: "重命名对话",
     Typing: "正在输入…",
+    Finish: {
+      Length: "回复已达到最大 Token 数，内容被截断",
+      ContentFilter: "回复被内容过滤器中止",
+    },
     Input: (submitKey: string) => {
       var inputHints = `输入消息，${submitKey} 发送`;
       if (submitKey === String(SubmitKey.Enter)) {
@@ -35,6 +104,27 @@ const cn = {
     Download: "下载文件",
     MessageFromYou: "来自你的消息",
     MessageFromChatGPT: "来自 ChatGPT 的消息",
+    MessageFromSystem: "系统提示",
+    Format: "格式",
+    Formats: {
+      markdown: "Markdown",
+      html: "HTML",
+      pdf: "PDF（打印）",
+      json: "JSON（可恢复）",
+      png: "PNG 图片",
+    },
+    Options: {
+      timestamps: "时间",
+      modelConfig: "模型设置",
+      context: "上下文提示",
+    },
+    Hints: {
+      html: "独立的网页，包含代码和公式的样式",
+      pdf: "打开打印对话框，选择“另存为 PDF”",
+      png: "对话的图片，链接中的图片不会包含",
+    },
+    Print: "打印",
+    Failed: "导出聊天失败",
   },
   Memory: {
     Title: "历史记忆",
@@ -43,6 +133,11 @@ const cn = {
     Copy: "复制记忆",
     Reset: "重置对话",
     ResetConfirm: "重置后将清空当前对话记录以及历史记忆，确认重置？",
+    Summarize: "立即总结",
+    Summarizing: "正在总结历史消息…",
+    Naming: "正在生成对话标题…",
+    Cancel: "取消",
+    Failed: "总结对话失败",
   },
   Home: {
     NewChat: "新的聊天",
@@ -86,6 +181,11 @@ const cn = {
     Theme: "主题",
     TightBorder: "紧凑边框",
     SendPreviewBubble: "发送预览气泡",
+    Tools: {
+      Title: "启用工具",
+      SubTitle:
+        "允许模型调用函数，需要 2023-12-01-preview 或更新的 api-version",
+    },
     Prompt: {
       Disable: {
         Title: "禁用提示词自动补全",
@@ -98,25 +198,54 @@ const cn = {
     },
     HistoryCount: {
       Title: "附带历史消息数",
-      SubTitle: "每次请求携带的历史消息数",
+      SubTitle: "每次请求最多携带的历史消息数，以上下文窗口能容纳的为限",
     },
     CompressThreshold: {
       Title: "历史消息长度压缩阈值",
-      SubTitle: "当未压缩的历史消息超过该值时，将进行压缩",
+      SubTitle: "当未总结的历史消息超过该 token 数时，将其总结为历史记忆",
+    },
+    SummarizeModel: {
+      Title: "总结模型",
+      SubTitle: "用于生成对话标题和总结历史消息的部署",
+      Default: "与对话相同",
     },
     Token: {
       Title: "API Key",
       SubTitle: "使用自己的 Key 可绕过密码访问限制",
       Placeholder: "OpenAI API Key",
     },
+    Sync: {
+      Title: "同步",
+      Disabled: "同步已关闭，聊天记录只保存在此浏览器中",
+      LastSync: (time: string) => `同步于 ${time}`,
+      Status: {
+        idle: "尚未同步",
+        syncing: "同步中...",
+        offline: "已离线，恢复联网后将同步更改",
+        error: "同步失败，稍后重试",
+        unavailable: "不可用，服务器未保存聊天记录或未登录",
+      },
+      Now: "立即同步",
+      Conflicts: (count: number) => `${count} 个聊天在其他设备上有更改，已更新`,
+    },
     Usage: {
-      Title: "余额查询",
-      SubTitle(used: any, total: any) {
-        return `本月已使用 $${used}，订阅总额 $${total}`;
+      Title: "用量查询",
+      SubTitle(cost: string, tokens: number) {
+        return `本月已使用 ${tokens} Tokens，约 $${cost}`;
+      },
+      ModelUsage(prompt: number, completion: number, requests: number) {
+        return `${requests} 次请求，提示 ${prompt} Tokens，回复 ${completion} Tokens`;
       },
       IsChecking: "正在检查…",
       Check: "重新检查",
-      NoAccess: "输入 API Key 或访问密码查看余额",
+      NoAccess: "输入访问密码或登录后查看用量",
+    },
+    Account: {
+      Title: "账号",
+      SubTitle: (name: string) => `已登录：${name}`,
+      NotSignedIn: "尚未登录",
+      Login: "登录",
+      Logout: "退出登录",
     },
     AccessCode: {
       Title: "访问密码",
@@ -132,6 +261,42 @@ const cn = {
       Title: "单次回复限制 (max_tokens)",
       SubTitle: "单次交互所用的最大 Token 数",
     },
+    Candidates: {
+      Title: "候选回复数",
+      SubTitle: "每条消息请求的回复数，多于一个时并排对比",
+    },
+    FrequencyPenalty: {
+      Title: "频率惩罚度",
+      SubTitle: "值越大，越不容易重复相同的内容",
+    },
+    TopP: {
+      Title: "Top P",
+      SubTitle: "核采样，与随机性二选一调整",
+    },
+    Stop: {
+      Title: "停止序列",
+      SubTitle: "最多 4 个，以逗号分隔，\\n 表示换行",
+      Placeholder: "例如 END, \\n\\n",
+    },
+    Seed: {
+      Title: "随机种子",
+      SubTitle: "设置后尽量复现同一请求的采样结果",
+    },
+    LogitBias: {
+      Title: "Logit Bias",
+      SubTitle: "Token ID 及其偏置（-100 到 100），JSON 格式",
+    },
+    ResponseFormat: {
+      Title: "回复格式",
+      SubTitle: "JSON 模式需要较新的模型，且提示词中包含 JSON 一词",
+      Text: "文本",
+      Json: "JSON",
+    },
+    User: {
+      Title: "用户标识",
+      SubTitle: "发送给 Azure 用于滥用监控的终端用户 ID",
+    },
+    InvalidValue: "无效的值，未保存",
     PresencePenlty: {
       Title: "话题新鲜度 (presence_penalty)",
       SubTitle: "值越大，越有可能扩展到新话题",
@@ -148,7 +313,12 @@ const cn = {
         "使用四到五个字直接返回这句话的简要主题，不要解释、不要标点、不要语气词、不要多余文本，如果没有主题，请直接返回“闲聊”",
       Summarize:
         "简要总结一下你和用户的对话，用作后续的上下文提示 prompt，控制在 200 字以内",
+      Knowledge:
+        "请在相关时参考以下编号的资料回答，并在所依据的内容后用 [1]、[2] 的形式注明来源：",
+      Attachments:
+        "以下是用户上传的文件中与问题相关的片段，回答时请参考，并注明所引用的文件名：",
     },
+    QuotaExceeded: "浏览器存储空间已满，请删除部分聊天或附件以继续保存",
     ConfirmClearAll: "确认清除所有聊天、设置数据？",
   },
   Copy: {
@@ -160,6 +330,66 @@ const cn = {
     Edit: "前置上下文和历史记忆",
     Add: "新增一条",
   },
+  Backup: {
+    Title: "备份",
+    SubTitle: "将聊天、设置、提示词和访问码保存在一个文件中，不包括知识库",
+    Export: "导出",
+    Import: "导入",
+    Restore: "恢复备份",
+    Summary: (
+      date: string,
+      sessions: number,
+      messages: number,
+      prompts: number,
+    ) =>
+      `${date} 的备份：${sessions} 个聊天，${messages} 条消息，${prompts} 条提示词`,
+    Merge: "合并",
+    Replace: "替换",
+    MergeHint:
+      "合并：添加备份中的聊天，两边都有的聊天保留最新版本，保留当前设置",
+    ReplaceHint: "替换：用备份中的聊天、设置和提示词替换当前的",
+    ConfirmReplace: "确认用备份替换所有聊天和设置？",
+    Restored: "备份已恢复",
+    Invalid: "不是有效的备份文件",
+  },
+  Import: {
+    Title: "导入聊天",
+    SubTitle:
+      "ChatGPT 数据导出中的 conversations.json，或 ChatGPT-Next-Web 及其分支的数据",
+    Choose: "选择文件",
+    SelectAll: "全选",
+    SelectNone: "全不选",
+    Confirm: (count: number) => `导入 ${count} 个聊天`,
+    Summary: (messages: number, date: string) => `${messages} 条消息 · ${date}`,
+    Exists: "已存在，导入时将被替换",
+    Empty: "文件中没有找到对话",
+    Imported: (count: number) => `已导入 ${count} 个聊天`,
+    Invalid: "不支持该文件格式",
+  },
+  SessionConfig: {
+    Title: "对话设置",
+    Reset: "使用全局设置",
+    ResetAll: "全部重置",
+    Badge: "自定义",
+  },
+  Knowledge: {
+    Title: "知识库",
+    Empty: "暂无知识库",
+    NamePlaceholder: "新知识库的名称",
+    Model: "嵌入模型",
+    NoModel: "服务端未配置嵌入模型部署",
+    Create: "创建",
+    Use: "在此对话中检索",
+    Upload: "添加文档",
+    Delete: "删除",
+    DeleteConfirm: (name: string) => `确认删除知识库“${name}”及其所有文档？`,
+    Documents: (count: number) => `${count} 个文档`,
+    Chunks: (count: number) => `${count} 个片段`,
+    Indexing: (name: string) => `正在索引 ${name}…`,
+    Failed: (name: string) => `无法索引 ${name}`,
+    SearchFailed: "检索知识库失败，将不使用知识库回答",
+    Sources: "来源",
+  },
 };
 
 export type LocaleType = typeof cn;
@@ -6,6 +6,13 @@ const en: LocaleType = {
   Error: {
     Unauthorized:
       "Unauthorized access, please enter access code in settings page.",
+    NeedLogin: "Please [sign in](/api/auth/login) first.",
+    Quota: {
+      RequestsPerMinute: "Too many requests, please slow down.",
+      TokensPerDay: "You have used up today's token quota.",
+      MonthlySpend: "You have reached this month's spending limit.",
+      RetryAfter: (time: string) => `Please try again after ${time}.`,
+    },
   },
   ChatItem: {
     ChatItemCount: (count: number) => `${count} messages`,
@@ -15,13 +22,78 @@ const en: LocaleType = {
     Actions: {
       ChatList: "Go To Chat List",
       CompressedHistory: "Compressed History Memory Prompt",
-      Export: "Export All Messages as Markdown",
+      Export: "Export Chat",
       Copy: "Copy",
       Stop: "Stop",
       Retry: "Retry",
+      Edit: "Edit",
+    },
+    ContentFilter: {
+      Blocked:
+        "Your prompt was blocked by the Azure OpenAI content filter, please rephrase it and try again.",
+      Prompt: "Prompt flagged by the content filter:",
+      Completion: "Reply flagged by the content filter:",
+      Filtered: "filtered",
+      Categories: {
+        Hate: "Hate",
+        Sexual: "Sexual",
+        Violence: "Violence",
+        SelfHarm: "Self-harm",
+      },
+      Severities: {
+        Safe: "safe",
+        Low: "low",
+        Medium: "medium",
+        High: "high",
+      },
+    },
+    Tools: {
+      Call: (name: string) => `Called ${name}`,
+      Arguments: "Arguments",
+      Result: "Result",
+      Running: "Running…",
+      MaxIterations: (count: number) =>
+        `Stopped after ${count} rounds of tool calls.`,
+    },
+    Images: {
+      Attach: "Attach Images",
+      Title: "Image",
+      Failed: "Failed to read the image",
+    },
+    Attachments: {
+      Attach: "Attach Files",
+      Used: (names: string) => `Answered with: ${names}`,
+      Failed: (name: string) => `Failed to read ${name}`,
+      Tokens: (count: number) => `${count} tokens`,
+    },
+    Branch: {
+      Previous: "Previous branch",
+      Next: "Next branch",
+      Editing: "Editing a message, sending it starts a new branch",
+      Cancel: "Cancel",
+    },
+    Compare: {
+      Title: "Compare",
+      Empty:
+        "Messages are sent to the chat model only, add models and temperatures to compare their replies side by side",
+      Add: "Add",
+      Delete: "Delete",
+      Candidates: (count: number) => `${count} candidate(s) per message`,
+      Candidate: (index: number, model: string, temperature: number) =>
+        `#${index} ${model} · ${temperature}`,
+      Pick: "Pick",
+    },
+    Tokens: {
+      Title:
+        "Tokens of the request, and how many the context window has room for next to the reply",
+      Count: (count: number, limit: number) => `${count} / ${limit} tokens`,
     },
     Rename: "Rename Chat",
     Typing: "Typing…",
+    Finish: {
+      Length: "The reply was cut off at the max tokens limit",
+      ContentFilter: "The reply was stopped by the content filter",
+    },
     Input: (submitKey: string) => {
       var inputHints = `Type something and press ${submitKey} to send`;
       if (submitKey === String(SubmitKey.Enter)) {
@@ -37,6 +109,27 @@ const en: LocaleType = {
     Download: "Download",
     MessageFromYou: "Message From You",
     MessageFromChatGPT: "Message From ChatGPT",
+    MessageFromSystem: "System Prompt",
+    Format: "Format",
+    Formats: {
+      markdown: "Markdown",
+      html: "HTML",
+      pdf: "PDF (print)",
+      json: "JSON (restorable)",
+      png: "PNG image",
+    },
+    Options: {
+      timestamps: "Timestamps",
+      modelConfig: "Model config",
+      context: "Context prompts",
+    },
+    Hints: {
+      html: "A self-contained page with the styles of code and formulas",
+      pdf: "Opens the print dialog, choose Save as PDF",
+      png: "An image of the conversation, images of links are left out",
+    },
+    Print: "Print",
+    Failed: "Failed to export the chat",
   },
   Memory: {
     Title: "Memory Prompt",
@@ -46,6 +139,11 @@ const en: LocaleType = {
     Reset: "Reset Session",
     ResetConfirm:
       "Resetting will clear the current conversation history and historical memory. Are you sure you want to reset?",
+    Summarize: "Summarize Now",
+    Summarizing: "Summarizing the history…",
+    Naming: "Naming the chat…",
+    Cancel: "Cancel",
+    Failed: "Failed to summarize the chat",
   },
   Home: {
     NewChat: "New Chat",
@@ -88,6 +186,11 @@ const en: LocaleType = {
     Theme: "Theme",
     TightBorder: "Tight Border",
     SendPreviewBubble: "Send Preview Bubble",
+    Tools: {
+      Title: "Enable Tools",
+      SubTitle:
+        "Let the model call functions, needs api-version 2023-12-01-preview or later",
+    },
     Prompt: {
       Disable: {
         Title: "Disable auto-completion",
@@ -100,26 +203,58 @@ const en: LocaleType = {
     },
     HistoryCount: {
       Title: "Attached Messages Count",
-      SubTitle: "Number of sent messages attached per request",
+      SubTitle:
+        "Maximum number of sent messages attached per request, as many as fit into the context window",
     },
     CompressThreshold: {
       Title: "History Compression Threshold",
       SubTitle:
-        "Will compress if uncompressed messages length exceeds the value",
+        "Summarize the history into the memory prompt when the unsummarized messages exceed this many tokens",
+    },
+    SummarizeModel: {
+      Title: "Summarizer Model",
+      SubTitle: "Deployment that names the chats and summarizes their history",
+      Default: "Same as the chat",
     },
     Token: {
       Title: "API Key",
       SubTitle: "Use your key to ignore access code limit",
       Placeholder: "OpenAI API Key",
     },
+    Sync: {
+      Title: "Sync",
+      Disabled: "Syncing is off, the chats stay in this browser",
+      LastSync: (time: string) => `Synced at ${time}`,
+      Status: {
+        idle: "Not synced yet",
+        syncing: "Syncing...",
+        offline: "Offline, the changes are synced once back online",
+        error: "Sync failed, retrying soon",
+        unavailable:
+          "Not available, the server keeps no chats or you are not signed in",
+      },
+      Now: "Sync Now",
+      Conflicts: (count: number) =>
+        `${count} chat(s) changed on another device were updated`,
+    },
     Usage: {
-      Title: "Account Balance",
-      SubTitle(used: any, total: any) {
-        return `Used this month $${used}, subscription $${total}`;
+      Title: "Usage",
+      SubTitle(cost: string, tokens: number) {
+        return `Used ${tokens} tokens this month, about $${cost}`;
+      },
+      ModelUsage(prompt: number, completion: number, requests: number) {
+        return `${requests} requests, ${prompt} prompt and ${completion} completion tokens`;
       },
       IsChecking: "Checking...",
       Check: "Check Again",
-      NoAccess: "Enter API Key to check balance",
+      NoAccess: "Enter access code or sign in to check usage",
+    },
+    Account: {
+      Title: "Account",
+      SubTitle: (name: string) => `Signed in as ${name}`,
+      NotSignedIn: "Not signed in",
+      Login: "Sign In",
+      Logout: "Sign Out",
     },
     AccessCode: {
       Title: "Access Code",
@@ -135,6 +270,44 @@ const en: LocaleType = {
       Title: "Max Tokens",
       SubTitle: "Maximum length of input tokens and generated tokens",
     },
+    Candidates: {
+      Title: "Candidates",
+      SubTitle:
+        "Replies asked for each message, compared side by side when more than one",
+    },
+    FrequencyPenalty: {
+      Title: "Frequency Penalty",
+      SubTitle: "A larger value lowers the chance of repeating the same lines",
+    },
+    TopP: {
+      Title: "Top P",
+      SubTitle: "Nucleus sampling, alter this or the temperature but not both",
+    },
+    Stop: {
+      Title: "Stop Sequences",
+      SubTitle: "Up to 4, separated by commas, \\n for a line break",
+      Placeholder: "e.g. END, \\n\\n",
+    },
+    Seed: {
+      Title: "Seed",
+      SubTitle: "Repeats the sampling of a request when set, best effort",
+    },
+    LogitBias: {
+      Title: "Logit Bias",
+      SubTitle: "Token ids and their bias from -100 to 100, as JSON",
+    },
+    ResponseFormat: {
+      Title: "Response Format",
+      SubTitle:
+        "JSON mode needs a recent model and the word JSON in the prompt",
+      Text: "Text",
+      Json: "JSON",
+    },
+    User: {
+      Title: "User",
+      SubTitle: "End user id sent to Azure for abuse monitoring",
+    },
+    InvalidValue: "Invalid value, not saved",
     PresencePenlty: {
       Title: "Presence Penalty",
       SubTitle:
@@ -153,7 +326,13 @@ const en: LocaleType = {
         "Please generate a four to five word title summarizing our conversation without any lead-in, punctuation, quotation marks, periods, symbols, or additional text. Remove enclosing quotation marks.",
       Summarize:
         "Summarize our discussion briefly in 200 words or less to use as a prompt for future context.",
+      Knowledge:
+        "Answer with the numbered sources below where they are relevant, and cite them as [1], [2] right after the statements they support:",
+      Attachments:
+        "Below are excerpts of the files attached by the user that are relevant to the question. Use them to answer and mention the names of the files you refer to:",
     },
+    QuotaExceeded:
+      "Browser storage is full, delete some chats or attachments to keep saving",
     ConfirmClearAll: "Confirm to clear all chat and setting data?",
   },
   Copy: {
@@ -165,6 +344,71 @@ const en: LocaleType = {
     Edit: "Contextual and Memory Prompts",
     Add: "Add One",
   },
+  Backup: {
+    Title: "Backup",
+    SubTitle:
+      "Chats, settings, prompts and access code in one file, knowledge bases are not included",
+    Export: "Export",
+    Import: "Import",
+    Restore: "Restore Backup",
+    Summary: (
+      date: string,
+      sessions: number,
+      messages: number,
+      prompts: number,
+    ) =>
+      `Backup of ${date}: ${sessions} chats with ${messages} messages, ${prompts} prompts`,
+    Merge: "Merge",
+    Replace: "Replace",
+    MergeHint:
+      "Merge: the chats of the backup are added, a chat on both sides keeps its latest version, the settings here are kept",
+    ReplaceHint:
+      "Replace: the chats, settings and prompts here are replaced with the ones of the backup",
+    ConfirmReplace: "Replace all chats and settings with the backup?",
+    Restored: "Backup restored",
+    Invalid: "Not a valid backup file",
+  },
+  Import: {
+    Title: "Import Chats",
+    SubTitle:
+      "conversations.json of a ChatGPT data export, or the data of ChatGPT-Next-Web and its forks",
+    Choose: "Choose File",
+    SelectAll: "Select All",
+    SelectNone: "Select None",
+    Confirm: (count: number) => `Import ${count} chats`,
+    Summary: (messages: number, date: string) =>
+      `${messages} messages · ${date}`,
+    Exists: "already here, replaced when imported",
+    Empty: "No conversations found in the file",
+    Imported: (count: number) => `${count} chats imported`,
+    Invalid: "The file is not a supported export",
+  },
+  SessionConfig: {
+    Title: "Chat Settings",
+    Reset: "Use global",
+    ResetAll: "Reset All",
+    Badge: "Custom",
+  },
+  Knowledge: {
+    Title: "Knowledge Bases",
+    Empty: "No knowledge bases yet",
+    NamePlaceholder: "Name of a new knowledge base",
+    Model: "Embedding model",
+    NoModel: "No embedding deployment is configured on the server",
+    Create: "Create",
+    Use: "Search in this chat",
+    Upload: "Add Documents",
+    Delete: "Delete",
+    DeleteConfirm: (name: string) =>
+      `Delete the knowledge base "${name}" and all its documents?`,
+    Documents: (count: number) => `${count} documents`,
+    Chunks: (count: number) => `${count} chunks`,
+    Indexing: (name: string) => `Indexing ${name}…`,
+    Failed: (name: string) => `Failed to index ${name}`,
+    SearchFailed:
+      "Failed to search the knowledge bases, answering without them",
+    Sources: "Sources",
+  },
 };
 
 export default en;
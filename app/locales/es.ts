@@ -6,6 +6,14 @@ const es: LocaleType = {
   Error: {
     Unauthorized:
       "Acceso no autorizado, por favor ingrese el código de acceso en la página de configuración.",
+    NeedLogin: "Por favor, [inicie sesión](/api/auth/login) primero.",
+    Quota: {
+      RequestsPerMinute: "Demasiadas solicitudes, por favor espere un momento.",
+      TokensPerDay: "Ha agotado la cuota de tokens de hoy.",
+      MonthlySpend: "Ha alcanzado el límite de gasto de este mes.",
+      RetryAfter: (time: string) =>
+        `Por favor, inténtelo de nuevo después de ${time}.`,
+    },
   },
   ChatItem: {
     ChatItemCount: (count: number) => `${count} mensajes`,
@@ -15,13 +23,78 @@ const es: LocaleType = {
     Actions: {
       ChatList: "Ir a la lista de chats",
       CompressedHistory: "Historial de memoria comprimido",
-      Export: "Exportar todos los mensajes como Markdown",
+      Export: "Exportar chat",
       Copy: "Copiar",
       Stop: "Detener",
       Retry: "Reintentar",
+      Edit: "Editar",
+    },
+    ContentFilter: {
+      Blocked:
+        "Su mensaje fue bloqueado por el filtro de contenido de Azure OpenAI, reformúlelo e inténtelo de nuevo.",
+      Prompt: "Mensaje marcado por el filtro de contenido:",
+      Completion: "Respuesta marcada por el filtro de contenido:",
+      Filtered: "filtrado",
+      Categories: {
+        Hate: "Odio",
+        Sexual: "Sexual",
+        Violence: "Violencia",
+        SelfHarm: "Autolesión",
+      },
+      Severities: {
+        Safe: "seguro",
+        Low: "bajo",
+        Medium: "medio",
+        High: "alto",
+      },
+    },
+    Tools: {
+      Call: (name: string) => `Llamó a ${name}`,
+      Arguments: "Argumentos",
+      Result: "Resultado",
+      Running: "Ejecutando…",
+      MaxIterations: (count: number) =>
+        `Detenido tras ${count} rondas de llamadas a herramientas.`,
+    },
+    Images: {
+      Attach: "Adjuntar imágenes",
+      Title: "Imagen",
+      Failed: "No se pudo leer la imagen",
+    },
+    Attachments: {
+      Attach: "Adjuntar archivos",
+      Used: (names: string) => `Respondido con: ${names}`,
+      Failed: (name: string) => `No se pudo leer ${name}`,
+      Tokens: (count: number) => `${count} tokens`,
+    },
+    Branch: {
+      Previous: "Rama anterior",
+      Next: "Rama siguiente",
+      Editing: "Editando un mensaje, al enviarlo se inicia una nueva rama",
+      Cancel: "Cancelar",
+    },
+    Compare: {
+      Title: "Comparar",
+      Empty:
+        "Los mensajes se envían solo al modelo del chat, añade modelos y temperaturas para comparar sus respuestas lado a lado",
+      Add: "Añadir",
+      Delete: "Eliminar",
+      Candidates: (count: number) => `${count} candidata(s) por mensaje`,
+      Candidate: (index: number, model: string, temperature: number) =>
+        `#${index} ${model} · ${temperature}`,
+      Pick: "Elegir",
+    },
+    Tokens: {
+      Title:
+        "Tokens de la solicitud y cuántos caben en la ventana de contexto junto a la respuesta",
+      Count: (count: number, limit: number) => `${count} / ${limit} tokens`,
     },
     Rename: "Renombrar chat",
     Typing: "Escribiendo...",
+    Finish: {
+      Length: "La respuesta se cortó al alcanzar el límite de tokens",
+      ContentFilter: "La respuesta fue detenida por el filtro de contenido",
+    },
     Input: (submitKey: string) => {
       var inputHints = `Escribe algo y presiona ${submitKey} para enviar`;
       if (submitKey === String(SubmitKey.Enter)) {
@@ -37,6 +110,27 @@ const es: LocaleType = {
     Download: "Descargar",
     MessageFromYou: "Mensaje de ti",
     MessageFromChatGPT: "Mensaje de ChatGPT",
+    MessageFromSystem: "Prompt del sistema",
+    Format: "Formato",
+    Formats: {
+      markdown: "Markdown",
+      html: "HTML",
+      pdf: "PDF (imprimir)",
+      json: "JSON (restaurable)",
+      png: "Imagen PNG",
+    },
+    Options: {
+      timestamps: "Fechas",
+      modelConfig: "Configuración del modelo",
+      context: "Prompts de contexto",
+    },
+    Hints: {
+      html: "Una página independiente con los estilos del código y las fórmulas",
+      pdf: "Abre el diálogo de impresión, elige Guardar como PDF",
+      png: "Una imagen de la conversación, las imágenes enlazadas no se incluyen",
+    },
+    Print: "Imprimir",
+    Failed: "No se pudo exportar el chat",
   },
   Memory: {
     Title: "Historial de memoria",
@@ -46,6 +140,11 @@ const es: LocaleType = {
     Reset: "Reset Session",
     ResetConfirm:
       "Resetting will clear the current conversation history and historical memory. Are you sure you want to reset?",
+    Summarize: "Resumir ahora",
+    Summarizing: "Resumiendo el historial…",
+    Naming: "Nombrando el chat…",
+    Cancel: "Cancelar",
+    Failed: "No se pudo resumir el chat",
   },
   Home: {
     NewChat: "Nuevo chat",
@@ -88,6 +187,11 @@ const es: LocaleType = {
     Theme: "Tema",
     TightBorder: "Borde ajustado",
     SendPreviewBubble: "Enviar burbuja de vista previa",
+    Tools: {
+      Title: "Habilitar herramientas",
+      SubTitle:
+        "Permite que el modelo llame funciones, requiere api-version 2023-12-01-preview o posterior",
+    },
     Prompt: {
       Disable: {
         Title: "Desactivar autocompletado",
@@ -100,26 +204,61 @@ const es: LocaleType = {
     },
     HistoryCount: {
       Title: "Cantidad de mensajes adjuntos",
-      SubTitle: "Número de mensajes enviados adjuntos por solicitud",
+      SubTitle:
+        "Número máximo de mensajes enviados adjuntos por solicitud, tantos como quepan en la ventana de contexto",
     },
     CompressThreshold: {
       Title: "Umbral de compresión de historial",
       SubTitle:
-        "Se comprimirán los mensajes si la longitud de los mensajes no comprimidos supera el valor",
+        "Resume el historial en el prompt de memoria cuando los mensajes sin resumir superan esta cantidad de tokens",
+    },
+    SummarizeModel: {
+      Title: "Modelo de resumen",
+      SubTitle: "Despliegue que nombra los chats y resume su historial",
+      Default: "El mismo que el chat",
     },
     Token: {
       Title: "Clave de API",
       SubTitle: "Utiliza tu clave para ignorar el límite de código de acceso",
       Placeholder: "Clave de la API de OpenAI",
     },
+    Sync: {
+      Title: "Sincronizar",
+      Disabled:
+        "La sincronización está desactivada, los chats se quedan en este navegador",
+      LastSync: (time: string) => `Sincronizado el ${time}`,
+      Status: {
+        idle: "Aún no sincronizado",
+        syncing: "Sincronizando...",
+        offline:
+          "Sin conexión, los cambios se sincronizarán al volver a estar en línea",
+        error: "Error al sincronizar, se reintentará pronto",
+        unavailable:
+          "No disponible, el servidor no guarda chats o no has iniciado sesión",
+      },
+      Now: "Sincronizar ahora",
+      Conflicts: (count: number) =>
+        `${count} chat(s) modificados en otro dispositivo se han actualizado`,
+    },
     Usage: {
-      Title: "Saldo de la cuenta",
-      SubTitle(used: any, total: any) {
-        return `Usado $${used}, subscription $${total}`;
+      Title: "Uso",
+      SubTitle(cost: string, tokens: number) {
+        return `Usados ${tokens} tokens este mes, aproximadamente $${cost}`;
+      },
+      ModelUsage(prompt: number, completion: number, requests: number) {
+        return `${requests} solicitudes, ${prompt} tokens de entrada y ${completion} de respuesta`;
       },
       IsChecking: "Comprobando...",
       Check: "Comprobar de nuevo",
-      NoAccess: "Introduzca la clave API para comprobar el saldo",
+      NoAccess:
+        "Introduzca el código de acceso o inicie sesión para comprobar el uso",
+    },
+    Account: {
+      Title: "Cuenta",
+      SubTitle: (name: string) => `Sesión iniciada como ${name}`,
+      NotSignedIn: "Sin sesión iniciada",
+      Login: "Iniciar sesión",
+      Logout: "Cerrar sesión",
     },
     AccessCode: {
       Title: "Código de acceso",
@@ -135,6 +274,48 @@ const es: LocaleType = {
       Title: "Máximo de tokens",
       SubTitle: "Longitud máxima de tokens de entrada y tokens generados",
     },
+    Candidates: {
+      Title: "Candidatas",
+      SubTitle:
+        "Respuestas pedidas para cada mensaje, comparadas lado a lado cuando hay más de una",
+    },
+    FrequencyPenalty: {
+      Title: "Penalización de frecuencia",
+      SubTitle:
+        "Un valor mayor reduce la probabilidad de repetir las mismas líneas",
+    },
+    TopP: {
+      Title: "Top P",
+      SubTitle:
+        "Muestreo de núcleo, ajusta este o la temperatura pero no ambos",
+    },
+    Stop: {
+      Title: "Secuencias de parada",
+      SubTitle: "Hasta 4, separadas por comas, \\n para un salto de línea",
+      Placeholder: "p. ej. END, \\n\\n",
+    },
+    Seed: {
+      Title: "Semilla",
+      SubTitle:
+        "Repite el muestreo de una solicitud cuando se define, en la medida de lo posible",
+    },
+    LogitBias: {
+      Title: "Sesgo de logits",
+      SubTitle: "Ids de tokens y su sesgo de -100 a 100, en JSON",
+    },
+    ResponseFormat: {
+      Title: "Formato de respuesta",
+      SubTitle:
+        "El modo JSON necesita un modelo reciente y la palabra JSON en el prompt",
+      Text: "Texto",
+      Json: "JSON",
+    },
+    User: {
+      Title: "Usuario",
+      SubTitle:
+        "Id del usuario final enviado a Azure para la supervisión de abusos",
+    },
+    InvalidValue: "Valor no válido, no se ha guardado",
     PresencePenlty: {
       Title: "Penalización de presencia",
       SubTitle:
@@ -153,7 +334,13 @@ const es: LocaleType = {
         "Por favor, genera un título de cuatro a cinco palabras que resuma nuestra conversación sin ningún inicio, puntuación, comillas, puntos, símbolos o texto adicional. Elimina las comillas que lo envuelven.",
       Summarize:
         "Resuma nuestra discusión brevemente en 200 caracteres o menos para usarlo como un recordatorio para futuros contextos.",
+      Knowledge:
+        "Responde con las fuentes numeradas a continuación cuando sean relevantes y cítalas como [1], [2] justo después de las afirmaciones que respaldan:",
+      Attachments:
+        "A continuación hay fragmentos de los archivos adjuntos por el usuario relevantes para la pregunta. Úsalos para responder y menciona los nombres de los archivos a los que te refieres:",
     },
+    QuotaExceeded:
+      "El almacenamiento del navegador está lleno, elimina algunos chats o adjuntos para seguir guardando",
     ConfirmClearAll:
       "¿Confirmar para borrar todos los datos de chat y configuración?",
   },
@@ -167,6 +354,72 @@ const es: LocaleType = {
     Edit: "Contextual and Memory Prompts",
     Add: "Add One",
   },
+  Backup: {
+    Title: "Copia de seguridad",
+    SubTitle:
+      "Chats, ajustes, prompts y código de acceso en un archivo, sin las bases de conocimiento",
+    Export: "Exportar",
+    Import: "Importar",
+    Restore: "Restaurar copia",
+    Summary: (
+      date: string,
+      sessions: number,
+      messages: number,
+      prompts: number,
+    ) =>
+      `Copia del ${date}: ${sessions} chats con ${messages} mensajes, ${prompts} prompts`,
+    Merge: "Combinar",
+    Replace: "Reemplazar",
+    MergeHint:
+      "Combinar: se añaden los chats de la copia, un chat presente en ambos lados conserva su versión más reciente y se mantienen los ajustes actuales",
+    ReplaceHint:
+      "Reemplazar: los chats, ajustes y prompts actuales se sustituyen por los de la copia",
+    ConfirmReplace: "¿Reemplazar todos los chats y ajustes con la copia?",
+    Restored: "Copia restaurada",
+    Invalid: "No es un archivo de copia válido",
+  },
+  Import: {
+    Title: "Importar chats",
+    SubTitle:
+      "conversations.json de una exportación de datos de ChatGPT, o los datos de ChatGPT-Next-Web y sus forks",
+    Choose: "Elegir archivo",
+    SelectAll: "Seleccionar todo",
+    SelectNone: "No seleccionar nada",
+    Confirm: (count: number) => `Importar ${count} chats`,
+    Summary: (messages: number, date: string) =>
+      `${messages} mensajes · ${date}`,
+    Exists: "ya existe, se reemplaza al importar",
+    Empty: "No se encontraron conversaciones en el archivo",
+    Imported: (count: number) => `${count} chats importados`,
+    Invalid: "El archivo no es una exportación compatible",
+  },
+  SessionConfig: {
+    Title: "Ajustes del chat",
+    Reset: "Usar global",
+    ResetAll: "Restablecer todo",
+    Badge: "Personalizado",
+  },
+  Knowledge: {
+    Title: "Bases de conocimiento",
+    Empty: "Aún no hay bases de conocimiento",
+    NamePlaceholder: "Nombre de una nueva base de conocimiento",
+    Model: "Modelo de embeddings",
+    NoModel:
+      "No hay ningún despliegue de embeddings configurado en el servidor",
+    Create: "Crear",
+    Use: "Buscar en este chat",
+    Upload: "Añadir documentos",
+    Delete: "Eliminar",
+    DeleteConfirm: (name: string) =>
+      `¿Eliminar la base de conocimiento "${name}" y todos sus documentos?`,
+    Documents: (count: number) => `${count} documentos`,
+    Chunks: (count: number) => `${count} fragmentos`,
+    Indexing: (name: string) => `Indexando ${name}…`,
+    Failed: (name: string) => `No se pudo indexar ${name}`,
+    SearchFailed:
+      "No se pudo buscar en las bases de conocimiento, se responderá sin ellas",
+    Sources: "Fuentes",
+  },
 };
 
 export default es;
@@ -6,6 +6,13 @@ const it: LocaleType = {
   Error: {
     Unauthorized:
       "Accesso non autorizzato, inserire il codice di accesso nella pagina delle impostazioni.",
+    NeedLogin: "Per favore, [accedi](/api/auth/login) prima.",
+    Quota: {
+      RequestsPerMinute: "Troppe richieste, per favore rallenta.",
+      TokensPerDay: "Hai esaurito la quota di token di oggi.",
+      MonthlySpend: "Hai raggiunto il limite di spesa di questo mese.",
+      RetryAfter: (time: string) => `Per favore riprova dopo ${time}.`,
+    },
   },
   ChatItem: {
     ChatItemCount: (count: number) => `${count} messaggi`,
@@ -15,13 +22,78 @@ const it: LocaleType = {
     Actions: {
       ChatList: "Vai alla Chat List",
       CompressedHistory: "Prompt di memoria della cronologia compressa",
-      Export: "Esportazione di tutti i messaggi come Markdown",
+      Export: "Esporta chat",
       Copy: "Copia",
       Stop: "Stop",
       Retry: "Riprova",
+      Edit: "Modifica",
+    },
+    ContentFilter: {
+      Blocked:
+        "Il tuo messaggio è stato bloccato dal filtro dei contenuti di Azure OpenAI, riformulalo e riprova.",
+      Prompt: "Messaggio segnalato dal filtro dei contenuti:",
+      Completion: "Risposta segnalata dal filtro dei contenuti:",
+      Filtered: "filtrato",
+      Categories: {
+        Hate: "Odio",
+        Sexual: "Sessuale",
+        Violence: "Violenza",
+        SelfHarm: "Autolesionismo",
+      },
+      Severities: {
+        Safe: "sicuro",
+        Low: "basso",
+        Medium: "medio",
+        High: "alto",
+      },
+    },
+    Tools: {
+      Call: (name: string) => `Chiamato ${name}`,
+      Arguments: "Argomenti",
+      Result: "Risultato",
+      Running: "In esecuzione…",
+      MaxIterations: (count: number) =>
+        `Interrotto dopo ${count} turni di chiamate agli strumenti.`,
+    },
+    Images: {
+      Attach: "Allega immagini",
+      Title: "Immagine",
+      Failed: "Impossibile leggere l'immagine",
+    },
+    Attachments: {
+      Attach: "Allega file",
+      Used: (names: string) => `Risposto con: ${names}`,
+      Failed: (name: string) => `Impossibile leggere ${name}`,
+      Tokens: (count: number) => `${count} token`,
+    },
+    Branch: {
+      Previous: "Ramo precedente",
+      Next: "Ramo successivo",
+      Editing: "Modifica di un messaggio, inviandolo si avvia un nuovo ramo",
+      Cancel: "Annulla",
+    },
+    Compare: {
+      Title: "Confronta",
+      Empty:
+        "I messaggi sono inviati solo al modello della chat, aggiungi modelli e temperature per confrontare le risposte affiancate",
+      Add: "Aggiungi",
+      Delete: "Elimina",
+      Candidates: (count: number) => `${count} candidata/e per messaggio`,
+      Candidate: (index: number, model: string, temperature: number) =>
+        `#${index} ${model} · ${temperature}`,
+      Pick: "Scegli",
+    },
+    Tokens: {
+      Title:
+        "Token della richiesta e quanti ne entrano nella finestra di contesto oltre alla risposta",
+      Count: (count: number, limit: number) => `${count} / ${limit} token`,
     },
     Rename: "Rinomina Chat",
     Typing: "Typing…",
+    Finish: {
+      Length: "La risposta è stata troncata al limite massimo di token",
+      ContentFilter: "La risposta è stata interrotta dal filtro dei contenuti",
+    },
     Input: (submitKey: string) => {
       var inputHints = `Scrivi qualcosa e premi ${submitKey} per inviare`;
       if (submitKey === String(SubmitKey.Enter)) {
@@ -37,6 +109,27 @@ const it: LocaleType = {
     Download: "Scarica",
     MessageFromYou: "Messaggio da te",
     MessageFromChatGPT: "Messaggio da ChatGPT",
+    MessageFromSystem: "Prompt di sistema",
+    Format: "Formato",
+    Formats: {
+      markdown: "Markdown",
+      html: "HTML",
+      pdf: "PDF (stampa)",
+      json: "JSON (ripristinabile)",
+      png: "Immagine PNG",
+    },
+    Options: {
+      timestamps: "Date",
+      modelConfig: "Configurazione del modello",
+      context: "Prompt di contesto",
+    },
+    Hints: {
+      html: "Una pagina autonoma con gli stili del codice e delle formule",
+      pdf: "Apre la finestra di stampa, scegli Salva come PDF",
+      png: "Un'immagine della conversazione, le immagini dei link non sono incluse",
+    },
+    Print: "Stampa",
+    Failed: "Impossibile esportare la chat",
   },
   Memory: {
     Title: "Prompt di memoria",
@@ -46,6 +139,11 @@ const it: LocaleType = {
     Reset: "Reset Session",
     ResetConfirm:
       "Resetting will clear the current conversation history and historical memory. Are you sure you want to reset?",
+    Summarize: "Riassumi ora",
+    Summarizing: "Riassunto della cronologia…",
+    Naming: "Assegnazione del titolo…",
+    Cancel: "Annulla",
+    Failed: "Impossibile riassumere la chat",
   },
   Home: {
     NewChat: "Nuova Chat",
@@ -88,6 +186,11 @@ const it: LocaleType = {
     Theme: "tema",
     TightBorder: "Bordi stretti",
     SendPreviewBubble: "Invia l'anteprima della bolla",
+    Tools: {
+      Title: "Abilita strumenti",
+      SubTitle:
+        "Consente al modello di chiamare funzioni, richiede api-version 2023-12-01-preview o successiva",
+    },
     Prompt: {
       Disable: {
         Title: "Disabilita l'auto completamento",
@@ -100,12 +203,19 @@ const it: LocaleType = {
     },
     HistoryCount: {
       Title: "Conteggio dei messaggi allegati",
-      SubTitle: "Numero di messaggi inviati allegati per richiesta",
+      SubTitle:
+        "Numero massimo di messaggi inviati allegati per richiesta, quanti ne entrano nella finestra di contesto",
     },
     CompressThreshold: {
       Title: "Soglia di compressione della cronologia",
       SubTitle:
-        "Comprimerà se la lunghezza dei messaggi non compressi supera il valore",
+        "Riassumi la cronologia nel prompt di memoria quando i messaggi non riassunti superano questo numero di token",
+    },
+    SummarizeModel: {
+      Title: "Modello di riepilogo",
+      SubTitle:
+        "Deployment che assegna il titolo alle chat e ne riassume la cronologia",
+      Default: "Lo stesso della chat",
     },
     Token: {
       Title: "Chiave API",
@@ -113,14 +223,43 @@ const it: LocaleType = {
         "Utilizzare la chiave per ignorare il limite del codice di accesso",
       Placeholder: "OpenAI API Key",
     },
+    Sync: {
+      Title: "Sincronizza",
+      Disabled:
+        "La sincronizzazione è disattivata, le chat restano in questo browser",
+      LastSync: (time: string) => `Sincronizzato il ${time}`,
+      Status: {
+        idle: "Non ancora sincronizzato",
+        syncing: "Sincronizzazione...",
+        offline:
+          "Offline, le modifiche saranno sincronizzate appena torni online",
+        error: "Sincronizzazione non riuscita, nuovo tentativo a breve",
+        unavailable:
+          "Non disponibile, il server non salva le chat o non hai effettuato l'accesso",
+      },
+      Now: "Sincronizza ora",
+      Conflicts: (count: number) =>
+        `${count} chat modificate su un altro dispositivo sono state aggiornate`,
+    },
     Usage: {
-      Title: "Bilancio Account",
-      SubTitle(used: any, total: any) {
-        return `Usato in questo mese $${used}, subscription $${total}`;
+      Title: "Utilizzo",
+      SubTitle(cost: string, tokens: number) {
+        return `Usati ${tokens} token in questo mese, circa $${cost}`;
+      },
+      ModelUsage(prompt: number, completion: number, requests: number) {
+        return `${requests} richieste, ${prompt} token di input e ${completion} di risposta`;
       },
       IsChecking: "Controllando...",
       Check: "Controlla ancora",
-      NoAccess: "Inserire la chiave API per controllare il saldo",
+      NoAccess:
+        "Inserire il codice d'accesso o accedere per controllare l'utilizzo",
+    },
+    Account: {
+      Title: "Account",
+      SubTitle: (name: string) => `Accesso effettuato come ${name}`,
+      NotSignedIn: "Accesso non effettuato",
+      Login: "Accedi",
+      Logout: "Esci",
     },
     AccessCode: {
       Title: "Codice d'accesso",
@@ -136,6 +275,48 @@ const it: LocaleType = {
       Title: "Token massimi",
       SubTitle: "Lunghezza massima dei token in ingresso e dei token generati",
     },
+    Candidates: {
+      Title: "Candidate",
+      SubTitle:
+        "Risposte richieste per ogni messaggio, confrontate affiancate quando sono più di una",
+    },
+    FrequencyPenalty: {
+      Title: "Penalità di frequenza",
+      SubTitle:
+        "Un valore maggiore riduce la probabilità di ripetere le stesse righe",
+    },
+    TopP: {
+      Title: "Top P",
+      SubTitle:
+        "Campionamento nucleus, modifica questo o la temperatura ma non entrambi",
+    },
+    Stop: {
+      Title: "Sequenze di stop",
+      SubTitle: "Fino a 4, separate da virgole, \\n per un a capo",
+      Placeholder: "es. END, \\n\\n",
+    },
+    Seed: {
+      Title: "Seed",
+      SubTitle:
+        "Ripete il campionamento di una richiesta quando impostato, se possibile",
+    },
+    LogitBias: {
+      Title: "Logit bias",
+      SubTitle: "Id dei token e il loro bias da -100 a 100, in JSON",
+    },
+    ResponseFormat: {
+      Title: "Formato della risposta",
+      SubTitle:
+        "La modalità JSON richiede un modello recente e la parola JSON nel prompt",
+      Text: "Testo",
+      Json: "JSON",
+    },
+    User: {
+      Title: "Utente",
+      SubTitle:
+        "Id dell'utente finale inviato ad Azure per il monitoraggio degli abusi",
+    },
+    InvalidValue: "Valore non valido, non salvato",
     PresencePenlty: {
       Title: "Penalità di presenza",
       SubTitle:
@@ -154,7 +335,13 @@ const it: LocaleType = {
         "Si prega di generare un titolo di quattro o cinque parole che riassuma la nostra conversazione senza alcuna traccia, punteggiatura, virgolette, punti, simboli o testo aggiuntivo. Rimuovere le virgolette",
       Summarize:
         "Riassumi brevemente la nostra discussione in 200 caratteri o meno per usarla come spunto per una futura conversazione.",
+      Knowledge:
+        "Rispondi con le fonti numerate qui sotto quando sono pertinenti e citale come [1], [2] subito dopo le affermazioni che supportano:",
+      Attachments:
+        "Di seguito ci sono estratti dei file allegati dall'utente pertinenti alla domanda. Usali per rispondere e indica i nomi dei file a cui fai riferimento:",
     },
+    QuotaExceeded:
+      "Lo spazio del browser è pieno, elimina alcune chat o allegati per continuare a salvare",
     ConfirmClearAll:
       "Confermi la cancellazione di tutti i dati della chat e delle impostazioni?",
   },
@@ -168,6 +355,71 @@ const it: LocaleType = {
     Edit: "Prompt contestuali e di memoria",
     Add: "Aggiungi altro",
   },
+  Backup: {
+    Title: "Backup",
+    SubTitle:
+      "Chat, impostazioni, prompt e codice di accesso in un file, senza le basi di conoscenza",
+    Export: "Esporta",
+    Import: "Importa",
+    Restore: "Ripristina backup",
+    Summary: (
+      date: string,
+      sessions: number,
+      messages: number,
+      prompts: number,
+    ) =>
+      `Backup del ${date}: ${sessions} chat con ${messages} messaggi, ${prompts} prompt`,
+    Merge: "Unisci",
+    Replace: "Sostituisci",
+    MergeHint:
+      "Unisci: le chat del backup vengono aggiunte, una chat presente da entrambe le parti mantiene la versione più recente e le impostazioni attuali restano",
+    ReplaceHint:
+      "Sostituisci: chat, impostazioni e prompt attuali vengono sostituiti da quelli del backup",
+    ConfirmReplace: "Sostituire tutte le chat e le impostazioni con il backup?",
+    Restored: "Backup ripristinato",
+    Invalid: "Non è un file di backup valido",
+  },
+  Import: {
+    Title: "Importa chat",
+    SubTitle:
+      "conversations.json di un'esportazione dati di ChatGPT, o i dati di ChatGPT-Next-Web e dei suoi fork",
+    Choose: "Scegli file",
+    SelectAll: "Seleziona tutto",
+    SelectNone: "Deseleziona tutto",
+    Confirm: (count: number) => `Importa ${count} chat`,
+    Summary: (messages: number, date: string) =>
+      `${messages} messaggi · ${date}`,
+    Exists: "già presente, sostituita con l'importazione",
+    Empty: "Nessuna conversazione trovata nel file",
+    Imported: (count: number) => `${count} chat importate`,
+    Invalid: "Il file non è un'esportazione supportata",
+  },
+  SessionConfig: {
+    Title: "Impostazioni della chat",
+    Reset: "Usa globale",
+    ResetAll: "Ripristina tutto",
+    Badge: "Personalizzato",
+  },
+  Knowledge: {
+    Title: "Basi di conoscenza",
+    Empty: "Nessuna base di conoscenza",
+    NamePlaceholder: "Nome di una nuova base di conoscenza",
+    Model: "Modello di embedding",
+    NoModel: "Nessun deployment di embedding configurato sul server",
+    Create: "Crea",
+    Use: "Cerca in questa chat",
+    Upload: "Aggiungi documenti",
+    Delete: "Elimina",
+    DeleteConfirm: (name: string) =>
+      `Eliminare la base di conoscenza "${name}" e tutti i suoi documenti?`,
+    Documents: (count: number) => `${count} documenti`,
+    Chunks: (count: number) => `${count} frammenti`,
+    Indexing: (name: string) => `Indicizzazione di ${name}…`,
+    Failed: (name: string) => `Impossibile indicizzare ${name}`,
+    SearchFailed:
+      "Ricerca nelle basi di conoscenza non riuscita, risposta senza di esse",
+    Sources: "Fonti",
+  },
 };
 
 export default it;
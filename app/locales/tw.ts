@@ -5,6 +5,13 @@ const tw: LocaleType = {
   WIP: "該功能仍在開發中……",
   Error: {
     Unauthorized: "目前您的狀態是未授權，請前往設定頁面輸入授權碼。",
+    NeedLogin: "請先[登入](/api/auth/login)。",
+    Quota: {
+      RequestsPerMinute: "請求過於頻繁，請稍後再試。",
+      TokensPerDay: "今日的 Token 額度已用完。",
+      MonthlySpend: "本月的費用額度已用完。",
+      RetryAfter: (time: string) => `請在 ${time} 後重試。`,
+    },
   },
   ChatItem: {
     ChatItemCount: (count: number) => `${count} 條對話`,
@@ -14,13 +21,75 @@ const tw: LocaleType = {
     Actions: {
       ChatList: "查看消息列表",
       CompressedHistory: "查看壓縮後的歷史 Prompt",
-      Export: "匯出聊天紀錄",
+      Export: "匯出聊天",
       Copy: "複製",
       Stop: "停止",
       Retry: "重試",
+      Edit: "編輯",
+    },
+    ContentFilter: {
+      Blocked: "您的輸入被 Azure OpenAI 內容過濾器攔截，請修改後重試。",
+      Prompt: "輸入觸發了內容過濾：",
+      Completion: "回覆觸發了內容過濾：",
+      Filtered: "已過濾",
+      Categories: {
+        Hate: "仇恨",
+        Sexual: "色情",
+        Violence: "暴力",
+        SelfHarm: "自殘",
+      },
+      Severities: {
+        Safe: "安全",
+        Low: "低",
+        Medium: "中",
+        High: "高",
+      },
+    },
+    Tools: {
+      Call: (name: string) => `呼叫了 ${name}`,
+      Arguments: "參數",
+      Result: "結果",
+      Running: "執行中…",
+      MaxIterations: (count: number) =>
+        `已連續呼叫工具 ${count} 輪，自動停止。`,
+    },
+    Images: {
+      Attach: "新增圖片",
+      Title: "圖片",
+      Failed: "無法讀取圖片",
+    },
+    Attachments: {
+      Attach: "添加檔案",
+      Used: (names: string) => `參考了附件：${names}`,
+      Failed: (name: string) => `無法讀取檔案 ${name}`,
+      Tokens: (count: number) => `${count} tokens`,
+    },
+    Branch: {
+      Previous: "上一個分支",
+      Next: "下一個分支",
+      Editing: "正在編輯訊息，傳送後將開啟新的分支",
+      Cancel: "取消",
+    },
+    Compare: {
+      Title: "對比",
+      Empty: "訊息僅傳送給聊天模型，新增模型和溫度以並排對比回覆",
+      Add: "新增",
+      Delete: "刪除",
+      Candidates: (count: number) => `每則訊息 ${count} 個候選回覆`,
+      Candidate: (index: number, model: string, temperature: number) =>
+        `#${index} ${model} · ${temperature}`,
+      Pick: "採用",
+    },
+    Tokens: {
+      Title: "請求的 token 數，以及上下文視窗在預留回覆後可容納的 token 數",
+      Count: (count: number, limit: number) => `${count} / ${limit} tokens`,
     },
     Rename: "重命名對話",
     Typing: "正在輸入…",
+    Finish: {
+      Length: "回覆已達到最大 Token 數，內容被截斷",
+      ContentFilter: "回覆被內容過濾器中止",
+    },
     Input: (submitKey: string) => {
       var inputHints = `輸入訊息後，按下 ${submitKey} 鍵即可發送`;
       if (submitKey === String(SubmitKey.Enter)) {
@@ -36,6 +105,27 @@ const tw: LocaleType = {
     Download: "下載檔案",
     MessageFromYou: "來自你的訊息",
     MessageFromChatGPT: "來自 ChatGPT 的訊息",
+    MessageFromSystem: "系統提示",
+    Format: "格式",
+    Formats: {
+      markdown: "Markdown",
+      html: "HTML",
+      pdf: "PDF（列印）",
+      json: "JSON（可還原）",
+      png: "PNG 圖片",
+    },
+    Options: {
+      timestamps: "時間",
+      modelConfig: "模型設定",
+      context: "上下文提示",
+    },
+    Hints: {
+      html: "獨立的網頁，包含程式碼和公式的樣式",
+      pdf: "開啟列印對話框，選擇「另存為 PDF」",
+      png: "對話的圖片，連結中的圖片不會包含",
+    },
+    Print: "列印",
+    Failed: "匯出聊天失敗",
   },
   Memory: {
     Title: "上下文記憶 Prompt",
@@ -44,6 +134,11 @@ const tw: LocaleType = {
     Send: "發送記憶",
     Reset: "重置對話",
     ResetConfirm: "重置後將清空當前對話記錄以及歷史記憶，確認重置？",
+    Summarize: "立即總結",
+    Summarizing: "正在總結歷史訊息…",
+    Naming: "正在產生對話標題…",
+    Cancel: "取消",
+    Failed: "總結對話失敗",
   },
   Home: {
     NewChat: "新的對話",
@@ -86,6 +181,11 @@ const tw: LocaleType = {
     Theme: "主題",
     TightBorder: "緊湊邊框",
     SendPreviewBubble: "發送預覽氣泡",
+    Tools: {
+      Title: "啟用工具",
+      SubTitle:
+        "允許模型呼叫函數，需要 2023-12-01-preview 或更新的 api-version",
+    },
     Prompt: {
       Disable: {
         Title: "停用提示詞自動補全",
@@ -98,25 +198,54 @@ const tw: LocaleType = {
     },
     HistoryCount: {
       Title: "附帶歷史訊息數",
-      SubTitle: "每次請求附帶的歷史訊息數",
+      SubTitle: "每次請求最多附帶的歷史訊息數，以上下文視窗能容納的為限",
     },
     CompressThreshold: {
       Title: "歷史訊息長度壓縮閾值",
-      SubTitle: "當未壓縮的歷史訊息超過該值時，將進行壓縮",
+      SubTitle: "當未總結的歷史訊息超過該 token 數時，將其總結為歷史記憶",
+    },
+    SummarizeModel: {
+      Title: "總結模型",
+      SubTitle: "用於產生對話標題和總結歷史訊息的部署",
+      Default: "與對話相同",
     },
     Token: {
       Title: "API Key",
       SubTitle: "使用自己的 Key 可規避授權訪問限制",
       Placeholder: "OpenAI API Key",
     },
+    Sync: {
+      Title: "同步",
+      Disabled: "同步已關閉，聊天記錄只保存在此瀏覽器中",
+      LastSync: (time: string) => `同步於 ${time}`,
+      Status: {
+        idle: "尚未同步",
+        syncing: "同步中...",
+        offline: "已離線，恢復連線後將同步變更",
+        error: "同步失敗，稍後重試",
+        unavailable: "無法使用，伺服器未保存聊天記錄或未登入",
+      },
+      Now: "立即同步",
+      Conflicts: (count: number) => `${count} 個聊天在其他裝置上有變更，已更新`,
+    },
     Usage: {
-      Title: "帳戶餘額",
-      SubTitle(used: any, total: any) {
-        return `本月已使用 $${used}，订阅总额 $${total}`;
+      Title: "用量查詢",
+      SubTitle(cost: string, tokens: number) {
+        return `本月已使用 ${tokens} Tokens，約 $${cost}`;
+      },
+      ModelUsage(prompt: number, completion: number, requests: number) {
+        return `${requests} 次請求，提示 ${prompt} Tokens，回覆 ${completion} Tokens`;
       },
       IsChecking: "正在檢查…",
       Check: "重新檢查",
-      NoAccess: "輸入API Key查看餘額",
+      NoAccess: "輸入授權碼或登入後查看用量",
+    },
+    Account: {
+      Title: "帳號",
+      SubTitle: (name: string) => `已登入：${name}`,
+      NotSignedIn: "尚未登入",
+      Login: "登入",
+      Logout: "登出",
     },
     AccessCode: {
       Title: "授權碼",
@@ -132,6 +261,42 @@ const tw: LocaleType = {
       Title: "單次回復限制 (max_tokens)",
       SubTitle: "單次交互所用的最大 Token 數",
     },
+    Candidates: {
+      Title: "候選回覆數",
+      SubTitle: "每則訊息請求的回覆數，多於一個時並排對比",
+    },
+    FrequencyPenalty: {
+      Title: "頻率懲罰度",
+      SubTitle: "值越大，越不容易重複相同的內容",
+    },
+    TopP: {
+      Title: "Top P",
+      SubTitle: "核取樣，與隨機性二擇一調整",
+    },
+    Stop: {
+      Title: "停止序列",
+      SubTitle: "最多 4 個，以逗號分隔，\\n 表示換行",
+      Placeholder: "例如 END, \\n\\n",
+    },
+    Seed: {
+      Title: "隨機種子",
+      SubTitle: "設定後盡量重現同一請求的取樣結果",
+    },
+    LogitBias: {
+      Title: "Logit Bias",
+      SubTitle: "Token ID 及其偏差（-100 到 100），JSON 格式",
+    },
+    ResponseFormat: {
+      Title: "回覆格式",
+      SubTitle: "JSON 模式需要較新的模型，且提示詞中包含 JSON 一詞",
+      Text: "文字",
+      Json: "JSON",
+    },
+    User: {
+      Title: "使用者標識",
+      SubTitle: "傳送給 Azure 用於濫用監控的終端使用者 ID",
+    },
+    InvalidValue: "無效的值，未儲存",
     PresencePenlty: {
       Title: "話題新穎度 (presence_penalty)",
       SubTitle: "值越大，越有可能擴展到新話題",
@@ -147,7 +312,12 @@ const tw: LocaleType = {
       Topic: "直接返回這句話的簡要主題，無須解釋，若無主題，請直接返回「閒聊」",
       Summarize:
         "簡要總結一下你和用戶的對話，作為後續的上下文提示 prompt，且字數控制在 200 字以內",
+      Knowledge:
+        "請在相關時參考以下編號的資料回答，並在所依據的內容後以 [1]、[2] 的形式註明來源：",
+      Attachments:
+        "以下是用戶上傳的檔案中與問題相關的片段，回答時請參考，並註明所引用的檔案名稱：",
     },
+    QuotaExceeded: "瀏覽器儲存空間已滿，請刪除部分聊天或附件以繼續儲存",
     ConfirmClearAll: "確認清除所有對話、設定數據？",
   },
   Copy: {
@@ -159,6 +329,66 @@ const tw: LocaleType = {
     Edit: "前置上下文和歷史記憶",
     Add: "新增壹條",
   },
+  Backup: {
+    Title: "備份",
+    SubTitle: "將聊天、設定、提示詞和存取碼儲存在一個檔案中，不包括知識庫",
+    Export: "匯出",
+    Import: "匯入",
+    Restore: "還原備份",
+    Summary: (
+      date: string,
+      sessions: number,
+      messages: number,
+      prompts: number,
+    ) =>
+      `${date} 的備份：${sessions} 個聊天，${messages} 則訊息，${prompts} 條提示詞`,
+    Merge: "合併",
+    Replace: "取代",
+    MergeHint:
+      "合併：新增備份中的聊天，兩邊都有的聊天保留最新版本，保留目前設定",
+    ReplaceHint: "取代：用備份中的聊天、設定和提示詞取代目前的",
+    ConfirmReplace: "確認用備份取代所有聊天和設定？",
+    Restored: "備份已還原",
+    Invalid: "不是有效的備份檔案",
+  },
+  Import: {
+    Title: "匯入聊天",
+    SubTitle:
+      "ChatGPT 資料匯出中的 conversations.json，或 ChatGPT-Next-Web 及其分支的資料",
+    Choose: "選擇檔案",
+    SelectAll: "全選",
+    SelectNone: "全不選",
+    Confirm: (count: number) => `匯入 ${count} 個聊天`,
+    Summary: (messages: number, date: string) => `${messages} 則訊息 · ${date}`,
+    Exists: "已存在，匯入時將被取代",
+    Empty: "檔案中沒有找到對話",
+    Imported: (count: number) => `已匯入 ${count} 個聊天`,
+    Invalid: "不支援此檔案格式",
+  },
+  SessionConfig: {
+    Title: "對話設定",
+    Reset: "使用全域設定",
+    ResetAll: "全部重設",
+    Badge: "自訂",
+  },
+  Knowledge: {
+    Title: "知識庫",
+    Empty: "尚無知識庫",
+    NamePlaceholder: "新知識庫的名稱",
+    Model: "嵌入模型",
+    NoModel: "伺服器未設定嵌入模型部署",
+    Create: "建立",
+    Use: "在此對話中檢索",
+    Upload: "新增文件",
+    Delete: "刪除",
+    DeleteConfirm: (name: string) => `確認刪除知識庫「${name}」及其所有文件？`,
+    Documents: (count: number) => `${count} 份文件`,
+    Chunks: (count: number) => `${count} 個片段`,
+    Indexing: (name: string) => `正在索引 ${name}…`,
+    Failed: (name: string) => `無法索引 ${name}`,
+    SearchFailed: "檢索知識庫失敗，將不使用知識庫回答",
+    Sources: "來源",
+  },
 };
 
 export default tw;
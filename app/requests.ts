@@ -1,6 +1,28 @@
-import type { ChatRequest, ChatReponse } from "./api/openai/typing";
-import { Message, ModelConfig, useAccessStore, useChatStore } from "./store";
+import type {
+  ChatRequest,
+  ChatRequestMessage,
+  ChatReponse,
+  ToolCall,
+  ToolDefinition,
+} from "./api/openai/typing";
+import type { UsageReport } from "./api/usage";
+import type { SessionChange, SessionsResponse } from "./api/sessions";
+import type {
+  ContentFilterResults,
+  FinishReason,
+  StreamEvent,
+} from "./api/stream";
+import {
+  getMessageTextContent,
+  Message,
+  ModalConfigValidator,
+  ModelConfig,
+  useAccessStore,
+  useChatStore,
+  useModelStore,
+} from "./store";
 import { showToast } from "./components/ui-lib";
+import Locale from "./locales";
 
 const TIME_OUT_MS = 30000;
 
@@ -9,26 +31,85 @@ const makeRequestParam = (
   options?: {
     filterBot?: boolean;
     stream?: boolean;
+    tools?: ToolDefinition[];
+    modelConfig?: Partial<ModelConfig>;
+    choices?: number; // completions asked for, one by default
   },
 ): ChatRequest => {
-  let sendMessages = messages.map((v) => ({
+  // over the config of the current session
+  const modelConfig = {
+    ...useChatStore.getState().getModelConfig(),
+    ...options?.modelConfig,
+  };
+  // the stored model may have been removed from the server catalogue
+  const model = ModalConfigValidator.model(modelConfig.model);
+  // the images of a chat are kept when it moves to a model without vision,
+  // which rejects them, only their text is sent
+  const vision = !!useModelStore.getState().getModel(model)?.vision;
+
+  let sendMessages: ChatRequestMessage[] = messages.map((v) => ({
     role: v.role,
-    content: v.content,
+    content: vision ? v.content : getMessageTextContent(v),
+    ...(v.tool_calls?.length ? { tool_calls: v.tool_calls } : {}),
+    ...(v.tool_call_id ? { tool_call_id: v.tool_call_id } : {}),
   }));
 
   if (options?.filterBot) {
-    sendMessages = sendMessages.filter((m) => m.role !== "assistant");
+    sendMessages = sendMessages.filter(
+      (m) => m.role !== "assistant" || m.tool_calls,
+    );
   }
 
-  const modelConfig = useChatStore.getState().config.modelConfig;
+  // a tool result is rejected without the call before it, which may have
+  // been cut off from the history
+  const callIds = new Set<string>();
+  sendMessages = sendMessages.filter((m) => {
+    m.tool_calls?.forEach((call) => callIds.add(call.id));
+    return m.role !== "tool" || callIds.has(m.tool_call_id ?? "");
+  });
+
+  const { stop, seed, logit_bias, response_format, user, ...params } =
+    modelConfig;
 
   return {
     messages: sendMessages,
     stream: options?.stream,
-    ...modelConfig,
+    ...params,
+    model,
+    // several choices are only asked for by comparisons
+    n: options?.choices,
+    // left out when not set
+    ...(stop.length > 0 ? { stop } : {}),
+    ...(seed !== undefined ? { seed } : {}),
+    ...(Object.keys(logit_bias).length > 0 ? { logit_bias } : {}),
+    ...(response_format !== "text"
+      ? { response_format: { type: response_format } }
+      : {}),
+    ...(user ? { user } : {}),
+    ...(options?.tools?.length ? { tools: options.tools } : {}),
   };
 };
 
+const QUOTA_MESSAGES = {
+  requests_per_minute: "RequestsPerMinute",
+  tokens_per_day: "TokensPerDay",
+  monthly_spend: "MonthlySpend",
+} as const;
+
+// structured 429 from the quota check of the proxy, or a throttled upstream
+function getQuotaErrorMessage(error: { limit?: string; retryAfter?: number }) {
+  const retryAfter = error.retryAfter ?? 60;
+  const message =
+    Locale.Error.Quota[
+      QUOTA_MESSAGES[
+        (error.limit ?? "requests_per_minute") as keyof typeof QUOTA_MESSAGES
+      ] ?? "RequestsPerMinute"
+    ];
+  const time = new Date(Date.now() + retryAfter * 1000).toLocaleString();
+
+  return `${message} ${Locale.Error.Quota.RetryAfter(time)}`;
+}
+
 function getHeaders() {
   const accessStore = useAccessStore.getState();
   let headers: Record<string, string> = {};
@@ -45,7 +126,7 @@ function getHeaders() {
 }
 
 export function requestOpenaiClient(path: string) {
-  return (body: any, method = "POST") =>
+  return (body: any, method = "POST", signal?: AbortSignal) =>
     fetch("/api/openai?_vercel_no_cache=1", {
       method,
       headers: {
@@ -54,14 +135,28 @@ export function requestOpenaiClient(path: string) {
         ...getHeaders(),
       },
       body: body && JSON.stringify(body),
+      signal,
     });
 }
 
-export async function requestChat(messages: Message[]) {
-  const req: ChatRequest = makeRequestParam(messages, { filterBot: true });
+export async function requestChat(
+  messages: Message[],
+  options?: {
+    modelConfig?: Partial<ModelConfig>;
+    signal?: AbortSignal;
+  },
+) {
+  const req: ChatRequest = makeRequestParam(messages, {
+    filterBot: true,
+    modelConfig: options?.modelConfig,
+  });
   console.log("[RequestChat] ", req);
 
-  const res = await requestOpenaiClient("v1/chat/completions")(req);
+  const res = await requestOpenaiClient("v1/chat/completions")(
+    req,
+    "POST",
+    options?.signal,
+  );
 
   try {
     const response = (await res.json()) as ChatReponse;
@@ -71,70 +166,157 @@ export async function requestChat(messages: Message[]) {
   }
 }
 
-export async function requestUsage() {
-  const formatDate = (d: Date) =>
-    `${d.getFullYear()}-${(d.getMonth() + 1).toString().padStart(2, "0")}-${d
-      .getDate()
-      .toString()
-      .padStart(2, "0")}`;
-  const ONE_DAY = 2 * 24 * 60 * 60 * 1000;
-  const now = new Date(Date.now() + ONE_DAY);
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const startDate = formatDate(startOfMonth);
-  const endDate = formatDate(now);
-
-  const [used, subs] = await Promise.all([
-    requestOpenaiClient(
-      `dashboard/billing/usage?start_date=${startDate}&end_date=${endDate}`,
-    )(null, "GET"),
-    requestOpenaiClient("dashboard/billing/subscription")(null, "GET"),
-  ]);
+// Azure accepts up to 16 inputs per embeddings request
+const EMBEDDING_BATCH_SIZE = 16;
 
-  const response = (await used.json()) as {
-    total_usage?: number;
-    error?: {
-      type: string;
-      message: string;
-    };
-  };
+export async function requestEmbeddings(input: string[], model: string) {
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < input.length; i += EMBEDDING_BATCH_SIZE) {
+    const res = await requestOpenaiClient("v1/embeddings")({
+      model,
+      input: input.slice(i, i + EMBEDDING_BATCH_SIZE),
+    });
+    const response = await res.json();
+
+    if (!res.ok || response.error) {
+      throw Error(response.error?.message ?? response.msg ?? res.statusText);
+    }
+
+    (response.data as { index: number; embedding: number[] }[])
+      .sort((a, b) => a.index - b.index)
+      .forEach((v) => embeddings.push(v.embedding));
+  }
+
+  return embeddings;
+}
 
-  const total = (await subs.json()) as {
-    hard_limit_usd?: number;
+export async function requestUsage() {
+  const res = await fetch("/api/usage", {
+    headers: getHeaders(),
+  });
+
+  const response = (await res.json()) as UsageReport & {
+    error?: boolean;
+    msg?: string;
   };
 
-  if (response.error && response.error.type) {
-    showToast(response.error.message);
+  if (!res.ok || response.error) {
+    showToast(response.msg ?? Locale.Store.Error);
     return;
   }
 
-  if (response.total_usage) {
-    response.total_usage = Math.round(response.total_usage) / 100;
+  return response;
+}
+
+// null when the server keeps no sessions or the user is not signed in, throws
+// when the server can not be reached
+async function fetchSessions(url: string, init?: RequestInit) {
+  const res = await fetch(url, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...getHeaders(),
+    },
+  });
+  if (res.status === 403 || res.status === 404) {
+    return null;
   }
+  if (!res.ok) {
+    throw Error(`failed to sync sessions: ${res.status}`);
+  }
+  return (await res.json()) as SessionsResponse;
+}
 
-  return {
-    used: response.total_usage,
-    subscription: total.hard_limit_usd,
+export function requestSessions(since: number) {
+  return fetchSessions(`/api/sessions?since=${since}`);
+}
+
+export function requestSaveSessions(changes: SessionChange[]) {
+  return fetchSessions("/api/sessions", {
+    method: "PUT",
+    body: JSON.stringify({ changes }),
+  });
+}
+
+export async function requestSession() {
+  const res = await fetch("/api/auth/session");
+  return (await res.json()) as {
+    user: { id: string; name: string } | null;
   };
 }
 
+export async function requestServerTools() {
+  const res = await fetch("/api/tools", {
+    headers: getHeaders(),
+  });
+  if (!res.ok) {
+    throw Error(`failed to fetch tools: ${res.status}`);
+  }
+  return ((await res.json()) as { tools: ToolDefinition[] }).tools;
+}
+
+export async function requestToolCall(name: string, args: string) {
+  const res = await fetch("/api/tools", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...getHeaders(),
+    },
+    body: JSON.stringify({ name, arguments: args }),
+  });
+
+  const response = (await res.json()) as { result?: string; msg?: string };
+  if (!res.ok) {
+    throw Error(response.msg ?? `${name} failed with ${res.status}`);
+  }
+  return response.result ?? "";
+}
+
+export interface StreamChoice {
+  content: string;
+  finishReason?: FinishReason;
+  toolCalls: ToolCall[];
+}
+
 export async function requestChatStream(
   messages: Message[],
   options?: {
     filterBot?: boolean;
-    modelConfig?: ModelConfig;
-    onMessage: (message: string, done: boolean) => void;
-    onError: (error: Error, statusCode?: number) => void;
+    modelConfig?: Partial<ModelConfig>;
+    tools?: ToolDefinition[];
+    choices?: number;
+    // the first choice
+    onMessage: (
+      message: string,
+      done: boolean,
+      finishReason?: FinishReason,
+      toolCalls?: ToolCall[],
+    ) => void;
+    // all of them, when several are asked for
+    onChoices?: (choices: StreamChoice[], done: boolean) => void;
+    onError: (error: Error, statusCode?: number, code?: string) => void;
+    onFilter?: (
+      source: "prompt" | "completion",
+      results: ContentFilterResults,
+      choice?: number,
+    ) => void;
     onController?: (controller: AbortController) => void;
+    signal?: AbortSignal;
   },
 ) {
   const req = makeRequestParam(messages, {
     stream: true,
     filterBot: options?.filterBot,
+    tools: options?.tools,
+    modelConfig: options?.modelConfig,
+    choices: options?.choices,
   });
 
   console.log("[Request] ", req);
 
   const controller = new AbortController();
+  options?.signal?.addEventListener("abort", () => controller.abort());
   const reqTimeoutId = setTimeout(() => controller.abort(), TIME_OUT_MS);
 
   try {
@@ -150,16 +332,74 @@ export async function requestChatStream(
     });
     clearTimeout(reqTimeoutId);
 
-    let responseText = "";
+    const choices: StreamChoice[] = [];
+    let streamError: Extract<StreamEvent, { type: "error" }> | undefined;
+
+    const getChoice = (index: number) => {
+      if (!choices[index]) {
+        choices[index] = { content: "", toolCalls: [] };
+      }
+      return choices[index];
+    };
+
+    const report = (done: boolean) => {
+      const { content, finishReason, toolCalls } = getChoice(0);
+      options?.onMessage(
+        content,
+        done,
+        done ? finishReason : undefined,
+        done && toolCalls.length > 0 ? toolCalls.filter((v) => !!v) : undefined,
+      );
+      options?.onChoices?.(
+        Array.from(choices, (_, i) => getChoice(i)).map((choice) => ({
+          ...choice,
+          toolCalls: choice.toolCalls.filter((v) => !!v),
+        })),
+        done,
+      );
+    };
 
     const finish = () => {
-      options?.onMessage(responseText, true);
+      report(true);
       controller.abort();
     };
 
+    const onEvent = (event: StreamEvent) => {
+      switch (event.type) {
+        case "delta":
+          getChoice(event.choice).content += event.content;
+          break;
+        case "finish":
+          getChoice(event.choice).finishReason = event.reason;
+          break;
+        case "tool_call": {
+          const toolCalls = getChoice(event.choice).toolCalls;
+          if (!toolCalls[event.index]) {
+            toolCalls[event.index] = {
+              id: "",
+              type: "function",
+              function: { name: "", arguments: "" },
+            };
+          }
+          const call = toolCalls[event.index];
+          call.id = event.id ?? call.id;
+          call.function.name += event.name ?? "";
+          call.function.arguments += event.arguments;
+          break;
+        }
+        case "filter":
+          options?.onFilter?.(event.source, event.results, event.choice);
+          break;
+        case "error":
+          streamError = event;
+          break;
+      }
+    };
+
     if (res.ok) {
       const reader = res.body?.getReader();
       const decoder = new TextDecoder();
+      let buffer = "";
 
       options?.onController?.(controller);
 
@@ -169,18 +409,47 @@ export async function requestChatStream(
         const resTimeoutId = setTimeout(() => finish(), TIME_OUT_MS);
         const content = await reader?.read();
         clearTimeout(resTimeoutId);
-        const text = decoder.decode(content?.value);
-        responseText += text;
+
+        // one json event per line, the last line may not be complete yet
+        const lines = (
+          buffer + decoder.decode(content?.value, { stream: true })
+        ).split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines.filter((v) => v.trim().length > 0)) {
+          try {
+            onEvent(JSON.parse(line));
+          } catch (e) {
+            console.error("[Stream] invalid event", line);
+          }
+        }
+
+        if (streamError) {
+          break;
+        }
 
         const done = !content || content.done;
-        options?.onMessage(responseText, false);
+        report(false);
 
         if (done) {
           break;
         }
       }
 
-      finish();
+      if (streamError) {
+        console.error("Stream Error", streamError);
+        options?.onError(
+          new Error(
+            streamError.status === 429
+              ? getQuotaErrorMessage(streamError)
+              : streamError.message,
+          ),
+          streamError.status,
+          streamError.code,
+        );
+        controller.abort();
+      } else {
+        finish();
+      }
     } else if (res.status === 401) {
       console.error("Unauthorized");
       options?.onError(new Error("Unauthorized"), res.status);
@@ -194,7 +463,11 @@ export async function requestChatStream(
   }
 }
 
-export async function requestWithPrompt(messages: Message[], prompt: string) {
+export async function requestWithPrompt(
+  messages: Message[],
+  prompt: string,
+  options?: Parameters<typeof requestChat>[1],
+) {
   messages = messages.concat([
     {
       role: "user",
@@ -203,7 +476,7 @@ export async function requestWithPrompt(messages: Message[], prompt: string) {
     },
   ]);
 
-  const res = await requestChat(messages);
+  const res = await requestChat(messages, options);
 
   return res?.choices?.at(0)?.message?.content ?? "";
 }
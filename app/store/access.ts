@@ -9,6 +9,7 @@ export interface AccessControlStore {
   updateToken: (_: string) => void;
   updateCode: (_: string) => void;
   enabledAccessControl: () => boolean;
+  enabledSSO: () => boolean;
 }
 
 export const ACCESS_KEY = "access-control";
@@ -21,6 +22,9 @@ export const useAccessStore = create<AccessControlStore>()(
       enabledAccessControl() {
         return queryMeta("access") === "enabled";
       },
+      enabledSSO() {
+        return queryMeta("sso") === "enabled";
+      },
       updateCode(code: string) {
         set((state) => ({ accessCode: code }));
       },
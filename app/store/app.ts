@@ -2,23 +2,104 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 
 import { type ChatCompletionResponseMessage } from "openai";
+import type {
+  ContentPart,
+  MessageContent,
+  ToolCall,
+} from "../api/openai/typing";
+import type { ContentFilterResults, FinishReason } from "../api/stream";
 import {
   ControllerPool,
   requestChatStream,
   requestWithPrompt,
 } from "../requests";
+import { getTools, runToolCall } from "../tools";
+import { LOGIT_BIAS_RANGE, MAX_STOP_SEQUENCES } from "../api/parameters";
+import { type Attachment, selectChunks } from "../attachments";
+import {
+  type Citation,
+  createKnowledgePrompt,
+  searchKnowledge,
+} from "../knowledge";
+import { useKnowledgeStore } from "./knowledge";
+import { type SummaryStep, useSummaryStore } from "./summary";
+import { createSessionStorage } from "./storage";
+import {
+  countMessagesTokens,
+  countMessageTokens,
+  getReplyTokens,
+  packMessages,
+} from "../token-counter";
 import { isMobileScreen, trimTopic } from "../utils";
+import { useModelStore } from "./model";
+import { useAccessStore } from "./access";
 
 import Locale from "../locales";
 import { showToast } from "../components/ui-lib";
 
-export type Message = ChatCompletionResponseMessage & {
+export type Message = Omit<
+  ChatCompletionResponseMessage,
+  "role" | "content"
+> & {
+  role: ChatCompletionResponseMessage["role"] | "tool";
+  // a string, or text and images for vision models
+  content: MessageContent;
   date: string;
   streaming?: boolean;
   isError?: boolean;
   id?: number;
+  finishReason?: FinishReason;
+  contentFilter?: {
+    prompt?: ContentFilterResults;
+    completion?: ContentFilterResults;
+  };
+  // calls made by an assistant message, answered by the tool messages after it
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+  // names of the attachments sent with the request of a reply
+  attachments?: string[];
+  // sources from the knowledge bases, cited as [number] in the content
+  citations?: Citation[];
+  // the other continuations from this message on, left when it was edited or
+  // retried; session.messages is the active path through this tree
+  forks?: Message[][];
+  forkIndex?: number; // position of the active continuation among them
+  // replies streamed side by side until one is picked, see pickCandidate
+  candidates?: Candidate[];
 };
 
+// a model and temperature the replies are compared across
+export interface Variant {
+  model: string;
+  temperature: number;
+}
+
+export interface Candidate extends Variant {
+  content: string;
+  streaming?: boolean;
+  isError?: boolean;
+  finishReason?: FinishReason;
+  contentFilter?: ContentFilterResults;
+}
+
+export type MessageBranch = Pick<Message, "forks" | "forkIndex">;
+
+// all the continuations from a message on, the active one at its forkIndex
+function getSiblings(messages: Message[], index: number) {
+  const { forks = [], forkIndex = 0, ...head } = messages[index];
+  const siblings = forks.slice();
+  siblings.splice(
+    forkIndex,
+    0,
+    [head as Message].concat(messages.slice(index + 1)),
+  );
+  return siblings;
+}
+
+export function countBranches(message: Message) {
+  return (message.forks?.length ?? 0) + 1;
+}
 
 export function createMessage(override: Partial<Message>): Message {
   return {
@@ -30,6 +111,35 @@ export function createMessage(override: Partial<Message>): Message {
   };
 }
 
+export function getMessageTextContent(message: Pick<Message, "content">) {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("\n")
+    .trim();
+}
+
+export function getMessageImages(message: Pick<Message, "content">) {
+  if (typeof message.content === "string") {
+    return [];
+  }
+  return message.content.flatMap((part) =>
+    part.type === "image_url" ? [part.image_url.url] : [],
+  );
+}
+
+export function createContent(text: string, images?: string[]) {
+  if (!images?.length) {
+    return text;
+  }
+  return [
+    { type: "text", text },
+    ...images.map((url) => ({ type: "image_url", image_url: { url } })),
+  ] as ContentPart[];
+}
+
 export enum SubmitKey {
   Enter = "Enter",
   CtrlEnter = "Ctrl + Enter",
@@ -46,7 +156,8 @@ export enum Theme {
 
 export interface ChatConfig {
   historyMessageCount: number; // -1 means all
-  compressMessageLengthThreshold: number;
+  compressTokenThreshold: number; // summarize the history beyond it
+  summarizeModel: string; // empty for the chat model
   sendBotMessages: boolean; // send bot's message or not
   submitKey: SubmitKey;
   avatar: string;
@@ -56,12 +167,21 @@ export interface ChatConfig {
   sendPreviewBubble: boolean;
 
   disablePromptHint: boolean;
+  enableTools: boolean;
 
   modelConfig: {
     model: string;
     temperature: number;
     max_tokens: number;
     presence_penalty: number;
+    n: number; // candidates of each reply, compared side by side
+    top_p: number;
+    frequency_penalty: number;
+    stop: string[];
+    seed?: number; // repeatable sampling, best effort
+    logit_bias: Record<string, number>; // token id to bias
+    response_format: "text" | "json_object";
+    user: string; // end user reported to Azure for abuse monitoring
   };
 }
 
@@ -69,34 +189,7 @@ export type ModelConfig = ChatConfig["modelConfig"];
 
 export const ROLES: Message["role"][] = ["system", "user", "assistant"];
 
-const ENABLE_GPT4 = true;
-
-export const ALL_MODELS = [
-  {
-    name: "gpt-4",
-    available: ENABLE_GPT4,
-  },
-  {
-    name: "gpt-4-0314",
-    available: ENABLE_GPT4,
-  },
-  {
-    name: "gpt-4-32k",
-    available: ENABLE_GPT4,
-  },
-  {
-    name: "gpt-4-32k-0314",
-    available: ENABLE_GPT4,
-  },
-  {
-    name: "gpt-3.5-turbo",
-    available: true,
-  },
-  {
-    name: "gpt-3.5-turbo-0301",
-    available: true,
-  },
-];
+export const MAX_CANDIDATES = 5;
 
 export function limitNumber(
   x: number,
@@ -112,9 +205,11 @@ export function limitNumber(
 }
 
 export function limitModel(name: string) {
-  return ALL_MODELS.some((m) => m.name === name && m.available)
-    ? name
-    : ALL_MODELS[4].name;
+  const models = useModelStore.getState().models;
+  if (models.length === 0 || models.some((m) => m.name === name)) {
+    return name;
+  }
+  return models[0].name;
 }
 
 export const ModalConfigValidator = {
@@ -130,11 +225,43 @@ export const ModalConfigValidator = {
   temperature(x: number) {
     return limitNumber(x, 0, 2, 1);
   },
+  n(x: number) {
+    return limitNumber(Math.round(x), 1, MAX_CANDIDATES, 1);
+  },
+  top_p(x: number) {
+    return limitNumber(x, 0, 1, 1);
+  },
+  frequency_penalty(x: number) {
+    return limitNumber(x, -2, 2, 0);
+  },
+  stop(x: string[]) {
+    return x.filter((v) => v.length > 0).slice(0, MAX_STOP_SEQUENCES);
+  },
+  seed(x?: number) {
+    return x === undefined || isNaN(x) ? undefined : Math.round(x);
+  },
+  logit_bias(x: Record<string, number>) {
+    return Object.fromEntries(
+      Object.entries(x)
+        .filter(([token]) => /^\d+$/.test(token))
+        .map(([token, bias]) => [
+          token,
+          limitNumber(bias, -LOGIT_BIAS_RANGE, LOGIT_BIAS_RANGE, 0),
+        ]),
+    );
+  },
+  response_format(x: string): ModelConfig["response_format"] {
+    return x === "json_object" ? x : "text";
+  },
+  user(x: string) {
+    return x.trim();
+  },
 };
 
 const DEFAULT_CONFIG: ChatConfig = {
   historyMessageCount: 4,
-  compressMessageLengthThreshold: 1000,
+  compressTokenThreshold: 2000,
+  summarizeModel: "",
   sendBotMessages: true as boolean,
   submitKey: SubmitKey.CtrlEnter as SubmitKey,
   avatar: "1f603",
@@ -144,12 +271,20 @@ const DEFAULT_CONFIG: ChatConfig = {
   sendPreviewBubble: false,
 
   disablePromptHint: false,
+  enableTools: false,
 
   modelConfig: {
     model: "gpt-3.5-turbo",
     temperature: 0.7,
     max_tokens: 4000,
     presence_penalty: 0,
+    n: 1,
+    top_p: 1,
+    frequency_penalty: 0,
+    stop: [],
+    logit_bias: {},
+    response_format: "text",
+    user: "",
   },
 };
 
@@ -168,7 +303,12 @@ export interface ChatSession {
   messages: Message[];
   stat: ChatStat;
   lastUpdate: string;
+  updatedAt: number; // ms, compared when the session is synced
   lastSummarizeIndex: number;
+  attachments: Attachment[];
+  knowledgeBases: number[]; // ids of the knowledge bases searched
+  variants: Variant[]; // compared for each message, none for the chat model
+  modelConfig: Partial<ModelConfig>; // over the global one, see getModelConfig
 }
 
 const DEFAULT_TOPIC = Locale.Store.DefaultTopic;
@@ -177,7 +317,7 @@ export const BOT_HELLO: Message = createMessage({
   content: Locale.Store.BotHello,
 });
 
-function createEmptySession(): ChatSession {
+export function createEmptySession(): ChatSession {
   const createDate = new Date().toLocaleString();
 
   return {
@@ -193,7 +333,12 @@ function createEmptySession(): ChatSession {
       charCount: 0,
     },
     lastUpdate: createDate,
+    updatedAt: Date.now(),
     lastSummarizeIndex: 0,
+    attachments: [],
+    knowledgeBases: [],
+    variants: [],
+    modelConfig: {},
   };
 }
 
@@ -209,30 +354,101 @@ interface ChatStore {
   deleteSession: () => void;
   currentSession: () => ChatSession;
   onNewMessage: (message: Message) => void;
-  onUserInput: (content: string) => Promise<void>;
-  summarizeSession: () => void;
-  updateStat: (message: Message) => void;
+  onUserInput: (
+    content: string,
+    images?: string[],
+    branch?: MessageBranch,
+  ) => Promise<void>;
+  branchSession: (index: number) => MessageBranch;
+  switchBranch: (index: number, to: number) => void;
+  pickCandidate: (index: number, which: number) => void;
+  summarizeSession: (force?: boolean) => void;
+  updateStat: () => void;
   updateCurrentSession: (updater: (session: ChatSession) => void) => void;
+  applyRemoteSessions: (updated: ChatSession[], removed: number[]) => void;
   updateMessage: (
     sessionIndex: number,
     messageIndex: number,
     updater: (message?: Message) => void,
   ) => void;
   resetSession: () => void;
-  getMessagesWithMemory: () => Message[];
-  getMemoryPrompt: () => Message;
+  getMessagesWithMemory: (
+    userMessage?: Message,
+    prompts?: Message[],
+    session?: ChatSession,
+  ) => Message[];
+  getMemoryPrompt: (session?: ChatSession) => Message;
 
   getConfig: () => ChatConfig;
+  getModelConfig: (session?: ChatSession) => ModelConfig;
   resetConfig: () => void;
   updateConfig: (updater: (config: ChatConfig) => void) => void;
   clearAllData: () => void;
 }
 
 function countMessages(msgs: Message[]) {
-  return msgs.reduce((pre, cur) => pre + cur.content.length, 0);
+  return msgs.reduce((pre, cur) => pre + getMessageTextContent(cur).length, 0);
+}
+
+// the content of a failed reply, after what was streamed of it
+function getErrorContent(
+  content: string,
+  error: Error,
+  statusCode?: number,
+  code?: string,
+) {
+  if (statusCode === 401) {
+    return useAccessStore.getState().enabledSSO()
+      ? Locale.Error.NeedLogin
+      : Locale.Error.Unauthorized;
+  }
+  if (statusCode === 429) {
+    return error.message;
+  }
+  if (code === "content_filter") {
+    return Locale.Chat.ContentFilter.Blocked;
+  }
+  return (
+    content +
+    "\n\n" +
+    Locale.Store.Error +
+    (code ? `\n\n> ${code}: ${error.message}` : "")
+  );
+}
+
+// max_tokens cut down to what the prompt leaves of the context window, the
+// history is packed with less reserved for the reply, see getReplyTokens
+function fitMaxTokens(
+  modelConfig: ModelConfig,
+  messages: Message[],
+): ModelConfig {
+  const contextWindow =
+    useModelStore.getState().getModel(modelConfig.model)?.contextWindow ?? 4096;
+  const left = contextWindow - countMessagesTokens(messages, modelConfig.model);
+  return {
+    ...modelConfig,
+    max_tokens: Math.max(1, Math.min(modelConfig.max_tokens, left)),
+  };
+}
+
+// the memory must not summarize messages that left the thread
+function forgetMemory(session: ChatSession, index: number) {
+  useSummaryStore.getState().cancel(session.id, "memory");
+  if (index < session.lastSummarizeIndex) {
+    session.memoryPrompt = "";
+    session.lastSummarizeIndex = 0;
+  }
 }
 
 const LOCAL_KEY = "chat-next-web-store";
+type PersistedChatState = Pick<
+  ChatStore,
+  "config" | "sessions" | "currentSessionIndex"
+>;
+const storage = createSessionStorage<PersistedChatState>();
+// tokens of attached files sent with a message, at most a quarter of the context
+const ATTACHMENT_TOKEN_BUDGET = 3000;
+const MAX_TOOL_ITERATIONS = 5;
 
 export const useChatStore = create<ChatStore>()(
   persist(
@@ -258,6 +474,15 @@ export const useChatStore = create<ChatStore>()(
         return get().config;
       },
 
+      // the global model config with the overrides of a session, the current
+      // one by default
+      getModelConfig(session = get().currentSession()) {
+        return {
+          ...get().config.modelConfig,
+          ...session.modelConfig,
+        };
+      },
+
       updateConfig(updater) {
         const config = get().config;
         updater(config);
@@ -337,6 +562,8 @@ export const useChatStore = create<ChatStore>()(
         showToast(Locale.Home.DeleteToast, {
           text: Locale.Home.Revert,
           onClick() {
+            // restored after the deletion, not before
+            deletedSession.updatedAt = Date.now();
             set((state) => ({
               sessions: state.sessions
                 .slice(0, index)
@@ -366,124 +593,410 @@ export const useChatStore = create<ChatStore>()(
         get().updateCurrentSession((session) => {
           session.lastUpdate = new Date().toLocaleString();
         });
-        // get().updateStat(message);
-        // get().summarizeSession();
+        get().updateStat();
+        get().summarizeSession();
       },
 
-      async onUserInput(content) {
+      async onUserInput(content, images, branch) {
         const userMessage: Message = createMessage({
           role: "user",
-          content,
+          content: createContent(content, images),
+          ...branch,
         });
 
-        const botMessage: Message = createMessage({
-          role: "assistant",
-          streaming: true,
-        });
-
-        // get recent messages
-        const recentMessages = get().getMessagesWithMemory();
-        const sendMessages = recentMessages.concat(userMessage);
         const sessionIndex = get().currentSessionIndex;
-        const messageIndex = get().currentSession().messages.length + 1;
+        const sessionId = get().currentSession().id;
+        // the chat may be switched while the replies and tools are awaited,
+        // what they add goes to the session they were asked in
+        const findSession = () =>
+          get().sessions.find((s) => s.id === sessionId);
+        const updateSession = (updater: (session: ChatSession) => void) => {
+          const sessions = get().sessions;
+          const target = findSession();
+          if (target) {
+            updater(target);
+            target.updatedAt = Date.now();
+          }
+          set(() => ({ sessions }));
+        };
+        // marks the session changed when a reply ends without a new message
+        const touchSession = () => updateSession(() => {});
 
-        // save user's and bot's message
+        // save user's message
         get().updateCurrentSession((session) => {
           session.messages.push(userMessage);
-          session.messages.push(botMessage);
         });
+        get().updateStat();
+
+        const tools = get().config.enableTools ? await getTools() : undefined;
+
+        const knowledgeBases = useKnowledgeStore
+          .getState()
+          .bases.filter((b) => findSession()?.knowledgeBases.includes(b.id));
+        let citations: Citation[] | undefined;
+        if (knowledgeBases.length > 0) {
+          try {
+            citations = await searchKnowledge(knowledgeBases, content);
+          } catch (e) {
+            console.error("[Knowledge] ", e);
+            showToast(Locale.Knowledge.SearchFailed);
+          }
+        }
+        const knowledgePrompt: Message[] = citations?.length
+          ? [
+              {
+                role: "system",
+                content: createKnowledgePrompt(
+                  Locale.Store.Prompt.Knowledge,
+                  citations,
+                ),
+                date: "",
+              },
+            ]
+          : [];
 
-        // make request
-        console.log("[User Input] ", sendMessages);
-        requestChatStream(sendMessages, {
-          onMessage(content, done) {
-            // stream response
-            if (done) {
+        // the session was deleted meanwhile
+        const session = findSession();
+        if (!session) {
+          return;
+        }
+        const modelConfig = get().getModelConfig(session);
+
+        // get recent messages
+        const recentMessages = get().getMessagesWithMemory(
+          userMessage,
+          knowledgePrompt,
+          session,
+        );
+        const attachments = recentMessages.find(
+          (m) => m.attachments,
+        )?.attachments;
+
+        const reply = (sendMessages: Message[], iteration: number) => {
+          const botMessage: Message = createMessage({
+            role: "assistant",
+            streaming: true,
+            attachments,
+            citations,
+          });
+          let messageIndex = 0;
+
+          // save bot's message
+          updateSession((session) => {
+            messageIndex = session.messages.length;
+            session.messages.push(botMessage);
+          });
+
+          // make request
+          console.log("[User Input] ", sendMessages);
+          requestChatStream(sendMessages, {
+            onMessage(content, done, finishReason, toolCalls) {
+              // stream response
+              if (done) {
+                botMessage.streaming = false;
+                botMessage.content = content;
+                botMessage.finishReason = finishReason;
+                botMessage.tool_calls = toolCalls;
+                touchSession();
+                get().onNewMessage(botMessage);
+                ControllerPool.remove(
+                  sessionIndex,
+                  botMessage.id ?? messageIndex,
+                );
+                if (toolCalls) {
+                  runTools(
+                    sendMessages.concat(botMessage),
+                    toolCalls,
+                    iteration,
+                  );
+                }
+              } else {
+                botMessage.content = content;
+                set(() => ({}));
+              }
+            },
+            onError(error, statusCode, code) {
+              botMessage.content = getErrorContent(
+                getMessageTextContent(botMessage),
+                error,
+                statusCode,
+                code,
+              );
+              if (code === "content_filter") {
+                botMessage.finishReason = "content_filter";
+              }
               botMessage.streaming = false;
-              botMessage.content = content;
-              get().onNewMessage(botMessage);
+              userMessage.isError = true;
+              botMessage.isError = true;
+              touchSession();
               ControllerPool.remove(
                 sessionIndex,
                 botMessage.id ?? messageIndex,
               );
-            } else {
-              botMessage.content = content;
+            },
+            onFilter(source, results) {
+              botMessage.contentFilter = {
+                ...botMessage.contentFilter,
+                [source]: results,
+              };
+            },
+            onController(controller) {
+              // collect controller for stop/retry
+              ControllerPool.addController(
+                sessionIndex,
+                botMessage.id ?? messageIndex,
+                controller,
+              );
+            },
+            filterBot: !get().config.sendBotMessages,
+            modelConfig: fitMaxTokens(modelConfig, sendMessages),
+            tools,
+          });
+        };
+
+        // run the calls of a reply and send the results back to the model
+        const runTools = async (
+          sendMessages: Message[],
+          toolCalls: ToolCall[],
+          iteration: number,
+        ) => {
+          const toolMessages = toolCalls.map((call) =>
+            createMessage({
+              role: "tool",
+              name: call.function.name,
+              tool_call_id: call.id,
+              streaming: true,
+            }),
+          );
+          updateSession((session) => {
+            session.messages.push(...toolMessages);
+          });
+
+          await Promise.all(
+            toolCalls.map(async (call, i) => {
+              toolMessages[i].content = await runToolCall(call);
+              toolMessages[i].streaming = false;
               set(() => ({}));
+            }),
+          );
+
+          // the model keeps calling tools, stop before it runs up the bill
+          if (iteration + 1 >= MAX_TOOL_ITERATIONS) {
+            updateSession((session) => {
+              session.messages.push(
+                createMessage({
+                  role: "assistant",
+                  content: Locale.Chat.Tools.MaxIterations(MAX_TOOL_ITERATIONS),
+                  isError: true,
+                }),
+              );
+            });
+            return;
+          }
+
+          reply(sendMessages.concat(toolMessages), iteration + 1);
+        };
+
+        // several candidates are streamed side by side, without tools
+        const compare = (sendMessages: Message[], variants: Variant[]) => {
+          const n = ModalConfigValidator.n(modelConfig.n);
+          const candidates: Candidate[] = variants.flatMap((variant) =>
+            Array.from({ length: n }, () => ({
+              ...variant,
+              content: "",
+              streaming: true,
+            })),
+          );
+          const botMessage: Message = createMessage({
+            role: "assistant",
+            streaming: true,
+            attachments,
+            citations,
+            candidates,
+          });
+          const messageId = botMessage.id ?? Date.now();
+          const controller = new AbortController();
+
+          updateSession((session) => {
+            session.messages.push(botMessage);
+          });
+          ControllerPool.addController(sessionIndex, messageId, controller);
+
+          const update = () => {
+            if (candidates.every((c) => !c.streaming)) {
+              botMessage.streaming = false;
+              if (candidates.every((c) => c.isError)) {
+                userMessage.isError = true;
+                botMessage.isError = true;
+              }
+              ControllerPool.remove(sessionIndex, messageId);
+              touchSession();
             }
-          },
-          onError(error, statusCode) {
-            if (statusCode === 401) {
-              botMessage.content = Locale.Error.Unauthorized;
-            } else {
-              botMessage.content += "\n\n" + Locale.Store.Error;
-            }
-            botMessage.streaming = false;
-            userMessage.isError = true;
-            botMessage.isError = true;
             set(() => ({}));
-            ControllerPool.remove(sessionIndex, botMessage.id ?? messageIndex);
-          },
-          onController(controller) {
-            // collect controller for stop/retry
-            ControllerPool.addController(
-              sessionIndex,
-              botMessage.id ?? messageIndex,
-              controller,
-            );
-          },
-          filterBot: !get().config.sendBotMessages,
-          modelConfig: get().config.modelConfig,
-        });
-      },
+          };
 
-      getMemoryPrompt() {
-        const session = get().currentSession();
+          console.log("[Compare] ", variants, sendMessages);
+          variants.forEach((variant, v) => {
+            const slots = candidates.slice(v * n, (v + 1) * n);
+            requestChatStream(sendMessages, {
+              onMessage() {},
+              onChoices(choices, done) {
+                choices.forEach((choice, i) => {
+                  if (slots[i]) {
+                    slots[i].content = choice.content;
+                    slots[i].finishReason = choice.finishReason;
+                  }
+                });
+                if (done) {
+                  slots.forEach((slot) => (slot.streaming = false));
+                }
+                update();
+              },
+              onError(error, statusCode, code) {
+                slots.forEach((slot) => {
+                  slot.content = getErrorContent(
+                    slot.content,
+                    error,
+                    statusCode,
+                    code,
+                  );
+                  slot.isError = true;
+                  slot.streaming = false;
+                });
+                update();
+              },
+              onFilter(source, results, choice) {
+                if (source === "prompt") {
+                  botMessage.contentFilter = { prompt: results };
+                } else if (choice !== undefined && slots[choice]) {
+                  slots[choice].contentFilter = results;
+                }
+              },
+              signal: controller.signal,
+              filterBot: !get().config.sendBotMessages,
+              modelConfig: fitMaxTokens(
+                { ...modelConfig, ...variant },
+                sendMessages,
+              ),
+              choices: n,
+            });
+          });
+        };
+
+        const variants = session.variants;
+        if (variants.length > 0 || modelConfig.n > 1) {
+          compare(
+            recentMessages.concat(userMessage),
+            variants.length > 0
+              ? variants
+              : [
+                  {
+                    model: modelConfig.model,
+                    temperature: modelConfig.temperature,
+                  },
+                ],
+          );
+          return;
+        }
 
+        reply(recentMessages.concat(userMessage), 0);
+      },
+
+      getMemoryPrompt(session = get().currentSession()) {
         return {
           role: "system",
           content: Locale.Store.Prompt.History(session.memoryPrompt),
           date: "",
         } as Message;
       },
-      
-      getMessagesWithMemory() {
-        const session = get().currentSession();
+
+      getMessagesWithMemory(
+        userMessage,
+        prompts = [],
+        session = get().currentSession(),
+      ) {
         const config = get().config;
-        const messages = session.messages.filter((msg) => !msg.isError);
+        const modelConfig = get().getModelConfig(session);
+        const contextWindow =
+          useModelStore.getState().getModel(modelConfig.model)?.contextWindow ??
+          4096;
+        // the history up to the message being sent
+        const end = userMessage ? session.messages.indexOf(userMessage) : -1;
+        const messages = session.messages
+          .slice(0, end < 0 ? undefined : end)
+          // replies are sent once picked from their candidates
+          .filter((msg) => !msg.isError && !msg.candidates);
         const n = messages.length;
         // messages for few shots
 
         const context = session.context.slice();
 
+        //Add system prompt
+        if (process.env.NEXT_PUBLIC_SYSTEM_PROMPT != undefined) {
+          const systemMessage: Message = {
+            content: `${process.env.NEXT_PUBLIC_SYSTEM_PROMPT}`,
+            role: "system",
+            date: "",
+          };
+
+          context.unshift(systemMessage);
+        }
+
         if (
           session.sendMemory &&
           session.memoryPrompt &&
           session.memoryPrompt.length > 0
         ) {
-          const memoryPrompt = get().getMemoryPrompt();
+          const memoryPrompt = get().getMemoryPrompt(session);
           context.push(memoryPrompt);
         }
 
-        const recentMessages = context.concat(messages.slice(Math.max(0, n - config.historyMessageCount)));
-
+        if (userMessage && session.attachments.length > 0) {
+          const chunks = selectChunks(
+            session.attachments,
+            getMessageTextContent(userMessage),
+            Math.min(ATTACHMENT_TOKEN_BUDGET, contextWindow / 4),
+          );
 
-        //Add system prompt
-        if (process.env.NEXT_PUBLIC_SYSTEM_PROMPT != undefined) {
-            const systemMessage: Message = {
-              content: `${process.env.NEXT_PUBLIC_SYSTEM_PROMPT}`,
+          if (chunks.length > 0) {
+            context.push({
               role: "system",
+              content: [Locale.Store.Prompt.Attachments]
+                .concat(
+                  chunks.map(
+                    (chunk) =>
+                      `--- ${chunk.name} (${chunk.index + 1}) ---\n${
+                        chunk.text
+                      }`,
+                  ),
+                )
+                .join("\n\n"),
               date: "",
-            };
-          
-          recentMessages.unshift(systemMessage);
-          
+              attachments: Array.from(new Set(chunks.map((c) => c.name))),
+            });
+          }
         }
-        
-        // const recentMessages = context.concat(
-        //   messages.slice(Math.max(0, n - config.historyMessageCount)),
-        // );
 
-        return recentMessages;
+        context.push(...prompts);
+
+        // the history gets what the reply, the prompts and the input leave
+        // of the context window
+        const budget =
+          contextWindow -
+          getReplyTokens(modelConfig.max_tokens, contextWindow) -
+          countMessagesTokens(
+            context.concat(userMessage ?? []),
+            modelConfig.model,
+          );
+        const history = packMessages(
+          config.historyMessageCount < 0
+            ? messages
+            : messages.slice(Math.max(0, n - config.historyMessageCount)),
+          budget,
+          modelConfig.model,
+        );
+
+        return context.concat(history);
       },
 
       updateMessage(
@@ -495,89 +1008,279 @@ export const useChatStore = create<ChatStore>()(
         const session = sessions.at(sessionIndex);
         const messages = session?.messages;
         updater(messages?.at(messageIndex));
+        if (session) {
+          session.updatedAt = Date.now();
+        }
         set(() => ({ sessions }));
       },
 
+      // the messages from index on are cut off and kept as a sibling of the
+      // user message sent next, which starts the new branch
+      branchSession(index) {
+        const session = get().currentSession();
+        if (index >= session.messages.length) {
+          return {};
+        }
+
+        const forks = getSiblings(session.messages, index);
+        get().updateCurrentSession((session) => {
+          session.messages = session.messages.slice(0, index);
+          forgetMemory(session, index);
+        });
+        get().updateStat();
+        return { forks, forkIndex: forks.length };
+      },
+
+      switchBranch(index, to) {
+        const session = get().currentSession();
+        // the replies are updated by their index while streaming
+        if (session.messages.some((m) => m.streaming)) {
+          return;
+        }
+
+        const siblings = getSiblings(session.messages, index);
+        if (!siblings[to]) {
+          return;
+        }
+
+        const [head, ...rest] = siblings[to];
+        get().updateCurrentSession((session) => {
+          session.messages = session.messages.slice(0, index).concat(
+            {
+              ...head,
+              forks: siblings.filter((_, i) => i !== to),
+              forkIndex: to,
+            },
+            rest,
+          );
+          forgetMemory(session, index);
+        });
+        get().updateStat();
+      },
+
+      // the picked candidate becomes the reply, the others its siblings
+      pickCandidate(index, which) {
+        const session = get().currentSession();
+        const message = session.messages[index];
+        if (!message?.candidates || message.streaming) {
+          return;
+        }
+
+        const { candidates, ...reply } = message;
+        const replies: Message[] = candidates.map((candidate) => ({
+          ...reply,
+          content: candidate.content,
+          isError: candidate.isError,
+          finishReason: candidate.finishReason,
+          contentFilter: {
+            ...reply.contentFilter,
+            completion: candidate.contentFilter,
+          },
+        }));
+        const picked: Message = {
+          ...replies[which],
+          forks: replies.filter((_, i) => i !== which).map((r) => [r]),
+          forkIndex: which,
+        };
+
+        get().updateCurrentSession((session) => {
+          session.messages = session.messages
+            .slice(0, index)
+            .concat(picked, session.messages.slice(index + 1));
+        });
+        get().onNewMessage(picked);
+      },
+
       resetSession() {
         get().updateCurrentSession((session) => {
           session.messages = [];
           session.memoryPrompt = "";
+          session.lastSummarizeIndex = 0;
         });
       },
 
-      summarizeSession() {
+      summarizeSession(force = false) {
         const session = get().currentSession();
+        const config = get().config;
+        const summaryStore = useSummaryStore.getState();
+        const modelConfig: ModelConfig = {
+          ...get().getModelConfig(),
+          model: config.summarizeModel || get().getModelConfig().model,
+          // the summaries are prose, whatever the chat asks for
+          response_format: "text",
+          stop: [],
+        };
+        const { model, max_tokens } = modelConfig;
+        const contextWindow =
+          useModelStore.getState().getModel(model)?.contextWindow ?? 4096;
+        const replyTokens = getReplyTokens(max_tokens, contextWindow);
+
+        // the session may not be the current one any more when a request ends
+        const updateSession = (updater: (session: ChatSession) => void) => {
+          const sessions = get().sessions;
+          const target = sessions.find((s) => s.id === session.id);
+          if (target) {
+            updater(target);
+            target.updatedAt = Date.now();
+            set(() => ({ sessions }));
+          }
+        };
+        const onError = (step: SummaryStep, controller: AbortController) => {
+          return (error: Error) => {
+            summaryStore.finish(controller);
+            if (controller.signal.aborted) return;
+            console.error("[Summarize] ", step, error);
+            showToast(Locale.Memory.Failed);
+          };
+        };
+        // images are left out, the summarizer may not be a vision model
+        const toText = (messages: Message[]): Message[] =>
+          messages
+            .filter((m) => !m.isError && !m.streaming)
+            .map((m) => ({ ...m, content: getMessageTextContent(m) }));
 
         // should summarize topic after chating more than 50 words
         const SUMMARIZE_MIN_LEN = 50;
-        if (
+        const topicController =
           session.topic === DEFAULT_TOPIC &&
           countMessages(session.messages) >= SUMMARIZE_MIN_LEN
-        ) {
-          requestWithPrompt(session.messages, Locale.Store.Prompt.Topic).then(
-            (res) => {
-              get().updateCurrentSession(
-                (session) =>
-                  (session.topic = res ? trimTopic(res) : DEFAULT_TOPIC),
-              );
-            },
+            ? summaryStore.start(session.id, "topic")
+            : undefined;
+        if (topicController) {
+          const topicPrompt: Message = {
+            role: "user",
+            content: Locale.Store.Prompt.Topic,
+            date: "",
+          };
+          const messages = packMessages(
+            toText(session.messages),
+            contextWindow -
+              replyTokens -
+              countMessagesTokens([topicPrompt], model),
+            model,
           );
-        }
-
-        const config = get().config;
-        let toBeSummarizedMsgs = session.messages.slice(
-          session.lastSummarizeIndex,
-        );
-
-        const historyMsgLength = countMessages(toBeSummarizedMsgs);
 
-        if (historyMsgLength > get().config?.modelConfig?.max_tokens ?? 4000) {
-          const n = toBeSummarizedMsgs.length;
-          toBeSummarizedMsgs = toBeSummarizedMsgs.slice(
-            Math.max(0, n - config.historyMessageCount),
-          );
+          requestWithPrompt(messages, Locale.Store.Prompt.Topic, {
+            modelConfig: fitMaxTokens(
+              modelConfig,
+              messages.concat(topicPrompt),
+            ),
+            signal: topicController.signal,
+          })
+            .then((res) => {
+              summaryStore.finish(topicController);
+              if (res) {
+                updateSession((session) => (session.topic = trimTopic(res)));
+              }
+            })
+            .catch(onError("topic", topicController));
         }
 
-        // add memory prompt
-        toBeSummarizedMsgs.unshift(get().getMemoryPrompt());
-
-        const lastSummarizeIndex = session.messages.length;
+        const toBeSummarizedMsgs = toText(
+          session.messages.slice(session.lastSummarizeIndex),
+        );
+        const historyTokens = countMessagesTokens(toBeSummarizedMsgs, model);
 
         console.log(
           "[Chat History] ",
           toBeSummarizedMsgs,
-          historyMsgLength,
-          config.compressMessageLengthThreshold,
+          historyTokens,
+          config.compressTokenThreshold,
         );
 
-        if (historyMsgLength > config.compressMessageLengthThreshold) {
-          requestChatStream(
-            toBeSummarizedMsgs.concat({
-              role: "system",
-              content: Locale.Store.Prompt.Summarize,
-              date: "",
-            }),
-            {
-              filterBot: false,
-              onMessage(message, done) {
-                session.memoryPrompt = message;
-                if (done) {
-                  console.log("[Memory] ", session.memoryPrompt);
-                  session.lastSummarizeIndex = lastSummarizeIndex;
-                }
-              },
-              onError(error) {
-                console.error("[Summarize] ", error);
+        if (
+          toBeSummarizedMsgs.length === 0 ||
+          (!force && historyTokens <= config.compressTokenThreshold)
+        ) {
+          return;
+        }
+
+        // the summary so far, and the oldest messages not in it there is room
+        // for, the ones after them are summarized the next time
+        const memoryPrompt: Message[] = session.memoryPrompt
+          ? [
+              {
+                role: "system",
+                content: Locale.Store.Prompt.History(session.memoryPrompt),
+                date: "",
               },
-            },
-          );
+            ]
+          : [];
+        const summarizePrompt: Message = {
+          role: "system",
+          content: Locale.Store.Prompt.Summarize,
+          date: "",
+        };
+        const budget =
+          contextWindow -
+          replyTokens -
+          countMessagesTokens(memoryPrompt.concat(summarizePrompt), model);
+        const included: Message[] = [];
+        let used = 0;
+        let lastSummarizeIndex = session.lastSummarizeIndex;
+        while (lastSummarizeIndex < session.messages.length) {
+          const message = session.messages[lastSummarizeIndex];
+          // a reply still streaming is summarized once it is done
+          if (message.streaming) {
+            break;
+          }
+          const [text] = toText([message]);
+          const tokens = text ? countMessageTokens(text, model) : 0;
+          if (used + tokens > budget) {
+            break;
+          }
+          text && included.push(text);
+          used += tokens;
+          lastSummarizeIndex += 1;
+        }
+        if (included.length === 0) {
+          return;
         }
+
+        const memoryController = summaryStore.start(session.id, "memory");
+        if (!memoryController) {
+          return;
+        }
+
+        const sendMessages = memoryPrompt.concat(included, summarizePrompt);
+        requestChatStream(sendMessages, {
+          filterBot: false,
+          modelConfig: fitMaxTokens(modelConfig, sendMessages),
+          signal: memoryController.signal,
+          onMessage(message, done) {
+            if (!done) {
+              summaryStore.update(memoryController, message);
+              return;
+            }
+
+            console.log("[Memory] ", message);
+            summaryStore.finish(memoryController);
+            if (message) {
+              updateSession((session) => {
+                session.memoryPrompt = message;
+                session.lastSummarizeIndex = lastSummarizeIndex;
+              });
+            }
+          },
+          onError: onError("memory", memoryController),
+        });
       },
 
-      updateStat(message) {
+      updateStat() {
+        const model = get().getModelConfig().model;
         get().updateCurrentSession((session) => {
-          session.stat.charCount += message.content.length;
-          // TODO: should update chat count and word count
+          const texts = session.messages.map(getMessageTextContent);
+          session.stat = {
+            tokenCount: session.messages.reduce(
+              (pre, cur) => pre + countMessageTokens(cur, model),
+              0,
+            ),
+            wordCount: texts.reduce(
+              (pre, cur) => pre + (cur.match(/\S+/g)?.length ?? 0),
+              0,
+            ),
+            charCount: texts.reduce((pre, cur) => pre + cur.length, 0),
+          };
         });
       },
 
@@ -585,21 +1288,65 @@ export const useChatStore = create<ChatStore>()(
         const sessions = get().sessions;
         const index = get().currentSessionIndex;
         updater(sessions[index]);
+        sessions[index].updatedAt = Date.now();
         set(() => ({ sessions }));
       },
 
+      // sessions synced from other devices, the current one stays selected
+      applyRemoteSessions(updated, removed) {
+        set((state) => {
+          const currentId = state.sessions[state.currentSessionIndex]?.id;
+          const added = updated.filter(
+            (u) => !state.sessions.some((s) => s.id === u.id),
+          );
+          const sessions = added
+            .concat(
+              state.sessions.map(
+                (s) => updated.find((u) => u.id === s.id) ?? s,
+              ),
+            )
+            .filter((s) => !removed.includes(s.id));
+
+          if (sessions.length === 0) {
+            return {
+              currentSessionIndex: 0,
+              sessions: [createEmptySession()],
+            };
+          }
+
+          const index = sessions.findIndex((s) => s.id === currentId);
+          return {
+            currentSessionIndex:
+              index >= 0
+                ? index
+                : Math.min(state.currentSessionIndex, sessions.length - 1),
+            sessions,
+          };
+        });
+      },
+
       clearAllData() {
         if (confirm(Locale.Store.ConfirmClearAll)) {
           localStorage.clear();
-          location.reload();
+          Promise.resolve(storage.removeItem(LOCAL_KEY)).finally(() =>
+            location.reload(),
+          );
         }
       },
     }),
     {
       name: LOCAL_KEY,
-      version: 1.2,
+      version: 1.9,
+      storage,
+      partialize: ({ config, sessions, currentSessionIndex }) => ({
+        config,
+        sessions,
+        currentSessionIndex,
+      }),
       migrate(persistedState, version) {
         const state = persistedState as ChatStore;
+        // the backup of a single session has no config, see createSessionBackup
+        const hasConfig = !!state.config;
 
         if (version === 1) {
           state.sessions.forEach((s) => (s.context = []));
@@ -609,6 +1356,43 @@ export const useChatStore = create<ChatStore>()(
           state.sessions.forEach((s) => (s.sendMemory = true));
         }
 
+        if (version < 1.3) {
+          state.sessions.forEach((s) => (s.attachments = []));
+        }
+
+        if (version < 1.4) {
+          state.sessions.forEach((s) => (s.knowledgeBases = []));
+        }
+
+        if (version < 1.5 && hasConfig) {
+          delete (state.config as any).compressMessageLengthThreshold;
+          state.config.compressTokenThreshold =
+            DEFAULT_CONFIG.compressTokenThreshold;
+          state.config.summarizeModel = DEFAULT_CONFIG.summarizeModel;
+        }
+
+        if (version < 1.6) {
+          if (hasConfig) {
+            state.config.modelConfig.n = DEFAULT_CONFIG.modelConfig.n;
+          }
+          state.sessions.forEach((s) => (s.variants = []));
+        }
+
+        if (version < 1.7 && hasConfig) {
+          state.config.modelConfig = {
+            ...DEFAULT_CONFIG.modelConfig,
+            ...state.config.modelConfig,
+          };
+        }
+
+        if (version < 1.8) {
+          state.sessions.forEach((s) => (s.modelConfig = {}));
+        }
+
+        if (version < 1.9) {
+          state.sessions.forEach((s) => (s.updatedAt = Date.now()));
+        }
+
         return state;
       },
     },
@@ -0,0 +1,98 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { deleteChunks, indexDocument } from "../knowledge";
+
+// Only the list of knowledge bases and their documents is kept here, the
+// chunks and their vectors are stored in IndexedDB (see knowledge.ts).
+
+export interface KnowledgeDocument {
+  id: number;
+  name: string;
+  size: number; // bytes of the file
+  chunks: number;
+  tokens: number;
+  date: string;
+}
+
+export interface KnowledgeBase {
+  id: number;
+  name: string;
+  model: string; // embedding model, the vectors of two models do not compare
+  documents: KnowledgeDocument[];
+}
+
+export interface KnowledgeStore {
+  bases: KnowledgeBase[];
+
+  create: (name: string, model: string) => KnowledgeBase;
+  remove: (id: number) => Promise<void>;
+  get: (id: number) => KnowledgeBase | undefined;
+  addDocument: (id: number, file: File) => Promise<void>;
+  removeDocument: (id: number, documentId: number) => Promise<void>;
+}
+
+export const KNOWLEDGE_KEY = "knowledge-store";
+
+export const useKnowledgeStore = create<KnowledgeStore>()(
+  persist(
+    (set, get) => ({
+      bases: [],
+
+      create(name, model) {
+        const base: KnowledgeBase = {
+          id: Date.now(),
+          name,
+          model,
+          documents: [],
+        };
+        set((state) => ({ bases: state.bases.concat(base) }));
+        return base;
+      },
+
+      async remove(id) {
+        await deleteChunks("base", id);
+        set((state) => ({ bases: state.bases.filter((b) => b.id !== id) }));
+      },
+
+      get(id) {
+        return get().bases.find((b) => b.id === id);
+      },
+
+      async addDocument(id, file) {
+        const base = get().get(id);
+        if (!base) {
+          return;
+        }
+
+        const document = await indexDocument(base, file);
+        // removed while the document was being embedded
+        if (!get().get(id)) {
+          return deleteChunks("document", document.id);
+        }
+        set((state) => ({
+          bases: state.bases.map((b) =>
+            b.id === id ? { ...b, documents: b.documents.concat(document) } : b,
+          ),
+        }));
+      },
+
+      async removeDocument(id, documentId) {
+        await deleteChunks("document", documentId);
+        set((state) => ({
+          bases: state.bases.map((b) =>
+            b.id === id
+              ? {
+                  ...b,
+                  documents: b.documents.filter((d) => d.id !== documentId),
+                }
+              : b,
+          ),
+        }));
+      },
+    }),
+    {
+      name: KNOWLEDGE_KEY,
+      version: 1,
+    },
+  ),
+);
@@ -0,0 +1,71 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { ModelInfo } from "../api/deployments";
+
+export type { ModelInfo };
+
+export interface ModelStore {
+  models: ModelInfo[];
+  embeddingModels: string[];
+  lastFetch: number;
+
+  fetchModels: () => Promise<void>;
+  getModel: (name: string) => ModelInfo | undefined;
+}
+
+export const MODEL_KEY = "model-store";
+
+// used until the server catalogue has been fetched once
+export const DEFAULT_MODELS: ModelInfo[] = [
+  {
+    name: "gpt-3.5-turbo",
+    displayName: "gpt-3.5-turbo",
+    contextWindow: 4096,
+    maxTokens: 4096,
+    vision: false,
+  },
+];
+
+export const useModelStore = create<ModelStore>()(
+  persist(
+    (set, get) => ({
+      models: DEFAULT_MODELS,
+      embeddingModels: [],
+      lastFetch: 0,
+
+      async fetchModels() {
+        try {
+          const res = await fetch("/api/models");
+          const { models, embeddingModels } = (await res.json()) as {
+            models: ModelInfo[];
+            embeddingModels?: string[];
+          };
+          if (!Array.isArray(models)) {
+            return;
+          }
+          set(() => ({
+            models,
+            embeddingModels: embeddingModels ?? [],
+            lastFetch: Date.now(),
+          }));
+          console.log("[Models] ", models);
+        } catch (error) {
+          console.error("[Models] failed to fetch models", error);
+        }
+      },
+
+      getModel(name) {
+        return get().models.find((m) => m.name === name);
+      },
+    }),
+    {
+      name: MODEL_KEY,
+      version: 1,
+      onRehydrateStorage() {
+        return (state) => {
+          state?.fetchModels();
+        };
+      },
+    },
+  ),
+);
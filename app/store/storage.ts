@@ -0,0 +1,239 @@
+import type { PersistStorage, StorageValue } from "zustand/middleware";
+import { showToast } from "../components/ui-lib";
+import Locale from "../locales";
+import type { ChatSession } from "./app";
+
+// Storage of the chat store in IndexedDB, one record per session. localStorage
+// holds about 5 MB and the store was rewritten whole on every streamed token,
+// here the writes are delayed and only the sessions changed since the last
+// one are written. The state saved in localStorage before is moved over on
+// the first load, and it stays the storage where IndexedDB is not available.
+
+export interface SessionsState {
+  sessions: ChatSession[];
+}
+
+// what the state record keeps of the sessions, they are stored on their own
+type SavedState<S> = StorageValue<Omit<S, "sessions"> & { sessions: number[] }>;
+
+const DB_NAME = "chat-store";
+const DB_VERSION = 1;
+const STATE_STORE = "state";
+const SESSION_STORE = "sessions";
+const WRITE_DELAY_MS = 500;
+
+let database: Promise<IDBDatabase> | undefined;
+
+function openDatabase() {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STATE_STORE);
+        req.result.createObjectStore(SESSION_STORE, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        database = undefined;
+        reject(req.error);
+      };
+    });
+  }
+  return database;
+}
+
+function waitFor<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function waitForTransaction(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function isQuotaError(e: unknown) {
+  return e instanceof DOMException && e.name === "QuotaExceededError";
+}
+
+export function createSessionStorage<
+  S extends SessionsState,
+>(): PersistStorage<S> {
+  // the sessions as last written, unchanged ones are skipped
+  const written = new Map<
+    number,
+    { session: ChatSession; updatedAt: number; streaming: boolean }
+  >();
+  const isStreaming = (session: ChatSession) =>
+    session.messages.some((m) => m.streaming);
+  // taken when the session is put, it may change until the write completes
+  const getWritten = (session: ChatSession) => ({
+    session,
+    updatedAt: session.updatedAt,
+    streaming: isStreaming(session),
+  });
+  let fallback = typeof indexedDB === "undefined";
+  // the state set before it was read would overwrite the saved one
+  let loaded = false;
+  let pending: { name: string; value: StorageValue<S> } | undefined;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const readLocal = (name: string) => {
+    const saved =
+      typeof localStorage === "undefined" ? null : localStorage.getItem(name);
+    return saved ? (JSON.parse(saved) as StorageValue<S>) : null;
+  };
+
+  const read = async (name: string) => {
+    const db = await openDatabase();
+    const tx = db.transaction([STATE_STORE, SESSION_STORE], "readonly");
+    const [saved, sessions] = await Promise.all([
+      waitFor<SavedState<S> | undefined>(tx.objectStore(STATE_STORE).get(name)),
+      waitFor<ChatSession[]>(tx.objectStore(SESSION_STORE).getAll()),
+    ]);
+    if (!saved) {
+      return null;
+    }
+
+    sessions.forEach((session) => written.set(session.id, getWritten(session)));
+    return {
+      ...saved,
+      state: {
+        ...saved.state,
+        sessions: saved.state.sessions
+          .map((id) => sessions.find((s) => s.id === id))
+          .filter((s): s is ChatSession => !!s),
+      },
+    } as StorageValue<S>;
+  };
+
+  const write = async (name: string, value: StorageValue<S>) => {
+    const { sessions, ...state } = value.state;
+    const changed = sessions.filter((session) => {
+      const last = written.get(session.id);
+      return (
+        !last ||
+        last.session !== session ||
+        last.updatedAt !== session.updatedAt ||
+        // replies are updated in place while streaming, and may end without
+        // a change of updatedAt when the chat was switched meanwhile
+        last.streaming ||
+        isStreaming(session)
+      );
+    });
+    const removed = Array.from(written.keys()).filter(
+      (id) => !sessions.some((s) => s.id === id),
+    );
+
+    const db = await openDatabase();
+    const tx = db.transaction([STATE_STORE, SESSION_STORE], "readwrite");
+    const saved: SavedState<S> = {
+      version: value.version,
+      state: { ...state, sessions: sessions.map((s) => s.id) },
+    };
+    tx.objectStore(STATE_STORE).put(saved, name);
+    const puts = changed.map((session) => {
+      tx.objectStore(SESSION_STORE).put(session);
+      return getWritten(session);
+    });
+    removed.forEach((id) => tx.objectStore(SESSION_STORE).delete(id));
+    await waitForTransaction(tx);
+
+    puts.forEach((put) => written.set(put.session.id, put));
+    removed.forEach((id) => written.delete(id));
+  };
+
+  const flush = async () => {
+    clearTimeout(timeoutId);
+    timeoutId = undefined;
+    if (!pending) {
+      return;
+    }
+
+    const { name, value } = pending;
+    pending = undefined;
+    try {
+      if (fallback) {
+        localStorage.setItem(name, JSON.stringify(value));
+      } else {
+        await write(name, value);
+      }
+    } catch (e) {
+      console.error("[Storage] ", e);
+      if (isQuotaError(e)) {
+        showToast(Locale.Store.QuotaExceeded);
+      }
+    }
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", flush);
+    document.addEventListener(
+      "visibilitychange",
+      () => document.visibilityState === "hidden" && flush(),
+    );
+  }
+
+  return {
+    async getItem(name) {
+      if (!fallback) {
+        try {
+          const saved = await read(name);
+          if (saved) {
+            loaded = true;
+            return saved;
+          }
+        } catch (e) {
+          console.error("[Storage] IndexedDB is not available, ", e);
+          fallback = true;
+        }
+      }
+
+      const local = readLocal(name);
+      if (local && !fallback) {
+        try {
+          await write(name, local);
+          localStorage.removeItem(name);
+          console.log("[Storage] moved", name, "to IndexedDB");
+        } catch (e) {
+          console.error("[Storage] ", e);
+        }
+      }
+      loaded = true;
+      return local;
+    },
+
+    setItem(name, value) {
+      // nothing is kept of the state rendered on the server
+      if (!loaded || typeof window === "undefined") {
+        return;
+      }
+      pending = { name, value };
+      if (!timeoutId) {
+        timeoutId = setTimeout(flush, WRITE_DELAY_MS);
+      }
+    },
+
+    async removeItem(name) {
+      clearTimeout(timeoutId);
+      timeoutId = undefined;
+      pending = undefined;
+      written.clear();
+      localStorage.removeItem(name);
+      if (fallback) {
+        return;
+      }
+
+      const db = await openDatabase();
+      const tx = db.transaction([STATE_STORE, SESSION_STORE], "readwrite");
+      tx.objectStore(STATE_STORE).delete(name);
+      tx.objectStore(SESSION_STORE).clear();
+      await waitForTransaction(tx);
+    },
+  };
+}
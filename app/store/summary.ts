@@ -0,0 +1,68 @@
+import { create } from "zustand";
+
+// Background requests that name a session and summarize its history. They
+// are not persisted, a reload cancels them.
+
+export type SummaryStep = "topic" | "memory";
+
+export interface SummaryTask {
+  sessionId: number;
+  step: SummaryStep;
+  content: string; // streamed so far
+  controller: AbortController;
+}
+
+export interface SummaryStore {
+  tasks: SummaryTask[];
+
+  // undefined when the step is already running for the session
+  start: (sessionId: number, step: SummaryStep) => AbortController | undefined;
+  update: (controller: AbortController, content: string) => void;
+  finish: (controller: AbortController) => void;
+  cancel: (sessionId: number, step: SummaryStep) => void;
+  get: (sessionId: number, step: SummaryStep) => SummaryTask | undefined;
+}
+
+export const useSummaryStore = create<SummaryStore>()((set, get) => ({
+  tasks: [],
+
+  start(sessionId, step) {
+    if (get().get(sessionId, step)) {
+      return;
+    }
+
+    const controller = new AbortController();
+    set((state) => ({
+      tasks: state.tasks.concat({ sessionId, step, content: "", controller }),
+    }));
+    return controller;
+  },
+
+  update(controller, content) {
+    set((state) => ({
+      tasks: state.tasks.map((task) =>
+        task.controller === controller ? { ...task, content } : task,
+      ),
+    }));
+  },
+
+  finish(controller) {
+    set((state) => ({
+      tasks: state.tasks.filter((task) => task.controller !== controller),
+    }));
+  },
+
+  cancel(sessionId, step) {
+    const task = get().get(sessionId, step);
+    if (task) {
+      task.controller.abort();
+      get().finish(task.controller);
+    }
+  },
+
+  get(sessionId, step) {
+    return get().tasks.find(
+      (task) => task.sessionId === sessionId && task.step === step,
+    );
+  },
+}));
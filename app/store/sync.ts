@@ -0,0 +1,229 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { SessionChange, StoredSession } from "../api/sessions";
+import { showToast } from "../components/ui-lib";
+import Locale from "../locales";
+import { requestSaveSessions, requestSessions } from "../requests";
+import { ChatSession, useChatStore } from "./app";
+
+// Syncs the chat sessions with the server when it keeps them (SESSIONS_FILE).
+// The sessions stay in the browser and keep working offline, the changes made
+// since the last sync are pushed and the ones of the other devices pulled.
+// When a session was changed on both sides, the version updated last wins.
+
+export type SyncStatus =
+  | "idle"
+  | "syncing"
+  | "offline"
+  | "error"
+  | "unavailable"; // the server keeps no sessions, or the user is signed out
+
+interface SyncedSession {
+  revision: number; // of the server, the changes are based on it
+  updatedAt: number;
+}
+
+export interface SyncStore {
+  enabled: boolean;
+  revision: number; // the latest pulled
+  known: Record<number, SyncedSession>;
+  status: SyncStatus;
+  lastSync?: number;
+
+  setEnabled: (enabled: boolean) => void;
+  sync: () => Promise<void>;
+}
+
+export const SYNC_KEY = "sync-store";
+const SYNC_DELAY_MS = 2000;
+const SYNC_INTERVAL_MS = 30000;
+
+let syncing = false;
+let pending = false;
+
+function isStreaming(session: ChatSession) {
+  return session.messages.some((m) => m.streaming);
+}
+
+// the changes since the last sync, sessions deleted here included
+function getChanges(known: Record<number, SyncedSession>) {
+  const sessions = useChatStore.getState().sessions;
+  const changes: SessionChange[] = sessions
+    .filter((s) =>
+      known[s.id] ? s.updatedAt > known[s.id].updatedAt : s.messages.length > 0,
+    )
+    // pushed once the reply is done
+    .filter((s) => !isStreaming(s))
+    .map((s) => ({
+      id: s.id,
+      updatedAt: s.updatedAt,
+      base: known[s.id]?.revision ?? 0,
+      session: s,
+    }));
+
+  Object.entries(known)
+    .filter(([id]) => !sessions.some((s) => s.id === Number(id)))
+    .forEach(([id, synced]) =>
+      changes.push({
+        id: Number(id),
+        updatedAt: Date.now(),
+        base: synced.revision,
+        deleted: true,
+      }),
+    );
+
+  return changes;
+}
+
+// applies the sessions of the server that are newer than the ones here, and
+// returns the number of local changes they overwrote
+function mergeSessions(records: StoredSession[]) {
+  const { known } = useSyncStore.getState();
+  const sessions = useChatStore.getState().sessions;
+  const nextKnown = { ...known };
+  const updated: ChatSession[] = [];
+  const removed: number[] = [];
+  let conflicts = 0;
+
+  records.forEach((record) => {
+    const local = sessions.find((s) => s.id === record.id);
+    if (local && isStreaming(local)) {
+      return;
+    }
+
+    // kept, and pushed on top of this revision when changed since
+    if (local && local.updatedAt >= record.updatedAt) {
+      nextKnown[record.id] = {
+        revision: record.revision,
+        updatedAt: record.updatedAt,
+      };
+      return;
+    }
+
+    if (local && local.updatedAt > (known[record.id]?.updatedAt ?? 0)) {
+      conflicts += 1;
+    }
+
+    if (record.deleted) {
+      delete nextKnown[record.id];
+      local && removed.push(record.id);
+    } else {
+      nextKnown[record.id] = {
+        revision: record.revision,
+        updatedAt: record.updatedAt,
+      };
+      updated.push(record.session as ChatSession);
+    }
+  });
+
+  if (updated.length > 0 || removed.length > 0) {
+    useChatStore.getState().applyRemoteSessions(updated, removed);
+  }
+  useSyncStore.setState({ known: nextKnown });
+
+  return conflicts;
+}
+
+export const useSyncStore = create<SyncStore>()(
+  persist(
+    (set, get) => ({
+      enabled: false,
+      revision: 0,
+      known: {},
+      status: "idle",
+
+      setEnabled(enabled) {
+        set(() => ({ enabled }));
+        enabled && get().sync();
+      },
+
+      async sync() {
+        if (!get().enabled || !useChatStore.persist.hasHydrated()) {
+          return;
+        }
+        if (syncing) {
+          pending = true;
+          return;
+        }
+        if (!navigator.onLine) {
+          set(() => ({ status: "offline" }));
+          return;
+        }
+
+        syncing = true;
+        set(() => ({ status: "syncing" }));
+
+        try {
+          let conflicts = 0;
+
+          const changes = getChanges(get().known);
+          if (changes.length > 0) {
+            const saved = await requestSaveSessions(changes);
+            if (!saved) {
+              set(() => ({ status: "unavailable" }));
+              return;
+            }
+            conflicts += mergeSessions(saved.sessions);
+          }
+
+          const pulled = await requestSessions(get().revision);
+          if (!pulled) {
+            set(() => ({ status: "unavailable" }));
+            return;
+          }
+          conflicts += mergeSessions(pulled.sessions);
+
+          set(() => ({
+            revision: pulled.revision,
+            status: "idle",
+            lastSync: Date.now(),
+          }));
+          if (conflicts > 0) {
+            showToast(Locale.Settings.Sync.Conflicts(conflicts));
+          }
+        } catch (e) {
+          console.error("[Sync] ", e);
+          set(() => ({ status: navigator.onLine ? "error" : "offline" }));
+        } finally {
+          syncing = false;
+          if (pending) {
+            pending = false;
+            get().sync();
+          }
+        }
+      },
+    }),
+    {
+      name: SYNC_KEY,
+      version: 1,
+      partialize: ({ enabled, revision, known, lastSync }) => ({
+        enabled,
+        revision,
+        known,
+        lastSync,
+      }),
+    },
+  ),
+);
+
+// syncs now, after changes and when the browser is back online, the returned
+// function stops it
+export function startSync() {
+  const sync = () => useSyncStore.getState().sync();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const unsubscribe = useChatStore.subscribe(() => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(sync, SYNC_DELAY_MS);
+  });
+  const intervalId = setInterval(sync, SYNC_INTERVAL_MS);
+  window.addEventListener("online", sync);
+  sync();
+
+  return () => {
+    unsubscribe();
+    clearTimeout(timeoutId);
+    clearInterval(intervalId);
+    window.removeEventListener("online", sync);
+  };
+}
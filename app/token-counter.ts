@@ -0,0 +1,98 @@
+import type { TokenizedMessage } from "./tokenizer";
+
+// Token counts in the browser. The encodings weigh a few MB, so tokenizer.ts
+// is loaded on demand and the counts are estimated until it is ready.
+
+type Tokenizer = typeof import("./tokenizer");
+
+// TOKENS_PER_IMAGE of tokenizer.ts
+const IMAGE_TOKENS = 765;
+
+let tokenizer: Tokenizer | undefined;
+let loading: Promise<Tokenizer> | undefined;
+
+export function loadTokenizer() {
+  if (!loading) {
+    loading = import("./tokenizer").then((module) => (tokenizer = module));
+  }
+  return loading;
+}
+
+// about 4 characters per token in latin scripts, 1 for the others
+function estimateTokens(text: string) {
+  const ascii = text.replace(/[^\x00-\x7f]/g, "").length;
+  return Math.ceil(ascii / 4) + (text.length - ascii);
+}
+
+function estimateMessageTokens(message: TokenizedMessage) {
+  const content =
+    typeof message.content === "string" || !message.content
+      ? [{ type: "text" as const, text: message.content ?? "" }]
+      : message.content;
+
+  return content.reduce(
+    (pre, part) =>
+      pre + (part.type === "text" ? estimateTokens(part.text) : IMAGE_TOKENS),
+    4,
+  );
+}
+
+// messages are updated in place while streaming, so the count is kept with
+// the content it was made for
+const cache = new WeakMap<
+  TokenizedMessage,
+  { content: TokenizedMessage["content"]; model?: string; tokens: number }
+>();
+
+export function countMessageTokens(message: TokenizedMessage, model?: string) {
+  if (!tokenizer) {
+    loadTokenizer();
+    return estimateMessageTokens(message);
+  }
+
+  const cached = cache.get(message);
+  if (cached && cached.content === message.content && cached.model === model) {
+    return cached.tokens;
+  }
+
+  const tokens = tokenizer.countMessageTokens(message, model);
+  cache.set(message, { content: message.content, model, tokens });
+  return tokens;
+}
+
+export function countMessagesTokens(
+  messages: TokenizedMessage[],
+  model?: string,
+) {
+  return messages.reduce(
+    (pre, cur) => pre + countMessageTokens(cur, model),
+    tokenizer?.TOKENS_PER_REPLY ?? 3,
+  );
+}
+
+// the latest messages that fit into the budget, in their order
+export function packMessages<T extends TokenizedMessage>(
+  messages: T[],
+  budget: number,
+  model?: string,
+) {
+  let used = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const tokens = countMessageTokens(messages[start - 1], model);
+    if (used + tokens > budget) {
+      break;
+    }
+    used += tokens;
+    start -= 1;
+  }
+
+  return messages.slice(start);
+}
+
+// the tokens kept free for the reply when the prompt is packed, max_tokens
+// may be about the whole window and would leave nothing for the history
+export function getReplyTokens(maxTokens: number, contextWindow: number) {
+  return Math.min(maxTokens, Math.floor(contextWindow / 4));
+}
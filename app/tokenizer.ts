@@ -0,0 +1,64 @@
+import { encode as encodeCl100k } from "gpt-tokenizer/esm/encoding/cl100k_base";
+import { encode as encodeO200k } from "gpt-tokenizer/esm/encoding/o200k_base";
+import type { MessageContent } from "./api/openai/typing";
+
+export type Encoding = "cl100k_base" | "o200k_base";
+
+export function getEncoding(model?: string): Encoding {
+  return model?.startsWith("gpt-4o") ? "o200k_base" : "cl100k_base";
+}
+
+export function countTokens(text: string, model?: string) {
+  const encode =
+    getEncoding(model) === "o200k_base" ? encodeO200k : encodeCl100k;
+  return encode(text).length;
+}
+
+// every message is wrapped in a few special tokens, and the reply is primed
+// with <|start|>assistant<|message|>, see
+// https://github.com/openai/openai-cookbook/blob/main/examples/How_to_count_tokens_with_tiktoken.ipynb
+const TOKENS_PER_MESSAGE = 3;
+export const TOKENS_PER_REPLY = 3;
+// a high detail image of up to 1024x1024 is billed as 4 tiles of 170 tokens
+// plus 85, images are downscaled to fit into that before they are sent
+const TOKENS_PER_IMAGE = 765;
+
+export function countContentTokens(
+  content: MessageContent | null | undefined,
+  model?: string,
+) {
+  if (typeof content === "string" || !content) {
+    return countTokens(content ?? "", model);
+  }
+  return content.reduce(
+    (pre, part) =>
+      pre +
+      (part.type === "text" ? countTokens(part.text, model) : TOKENS_PER_IMAGE),
+    0,
+  );
+}
+
+export interface TokenizedMessage {
+  role: string;
+  content?: MessageContent | null;
+  name?: string;
+}
+
+export function countMessageTokens(message: TokenizedMessage, model?: string) {
+  return (
+    TOKENS_PER_MESSAGE +
+    countTokens(message.role, model) +
+    countContentTokens(message.content, model) +
+    (message.name ? countTokens(message.name, model) + 1 : 0)
+  );
+}
+
+export function countMessagesTokens(
+  messages: TokenizedMessage[],
+  model?: string,
+) {
+  return messages.reduce(
+    (pre, cur) => pre + countMessageTokens(cur, model),
+    TOKENS_PER_REPLY,
+  );
+}
@@ -0,0 +1,133 @@
+import type { ToolCall, ToolDefinition } from "./api/openai/typing";
+import { requestServerTools, requestToolCall } from "./requests";
+
+// Tools the model may call while answering. Client tools run in the browser,
+// server tools (SERVER_TOOLS) are listed by and run through /api/tools.
+
+export interface ClientTool {
+  definition: ToolDefinition;
+  run: (args: any) => string | Promise<string>;
+}
+
+// + - * / % ^ and parentheses, parsed by hand instead of eval
+function calculate(expression: string) {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[-+*/%^()]/gi) ?? [];
+  if (tokens.join("") !== expression.replace(/\s+/g, "")) {
+    throw Error(`invalid expression: ${expression}`);
+  }
+  let pos = 0;
+
+  const primary = (): number => {
+    const token = tokens[pos++];
+    if (token === "(") {
+      const value = sum();
+      if (tokens[pos++] !== ")") throw Error("missing )");
+      return value;
+    }
+    if (token === "-") return -primary();
+    if (token === "+") return primary();
+    const value = Number(token);
+    if (isNaN(value)) throw Error(`unexpected ${token ?? "end"}`);
+    return value;
+  };
+  const power = (): number => {
+    const base = primary();
+    return tokens[pos] === "^" ? (pos++, Math.pow(base, power())) : base;
+  };
+  const product = (): number => {
+    let value = power();
+    while (["*", "/", "%"].includes(tokens[pos])) {
+      const op = tokens[pos++];
+      const rhs = power();
+      value = op === "*" ? value * rhs : op === "/" ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (["+", "-"].includes(tokens[pos])) {
+      const op = tokens[pos++];
+      const rhs = product();
+      value = op === "+" ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+
+  const value = sum();
+  if (pos < tokens.length) {
+    throw Error(`unexpected ${tokens[pos]}`);
+  }
+  return value;
+}
+
+export const CLIENT_TOOLS: ClientTool[] = [
+  {
+    definition: {
+      type: "function",
+      function: {
+        name: "get_current_time",
+        description:
+          "Get the current date and time and the time zone of the user",
+        parameters: { type: "object", properties: {} },
+      },
+    },
+    run() {
+      return JSON.stringify({
+        time: new Date().toString(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+    },
+  },
+  {
+    definition: {
+      type: "function",
+      function: {
+        name: "calculate",
+        description:
+          "Evaluate an arithmetic expression with + - * / % ^ and parentheses",
+        parameters: {
+          type: "object",
+          properties: {
+            expression: { type: "string", description: "e.g. (2 + 3) * 4" },
+          },
+          required: ["expression"],
+        },
+      },
+    },
+    run(args: { expression: string }) {
+      return String(calculate(String(args.expression ?? "")));
+    },
+  },
+];
+
+let serverTools: Promise<ToolDefinition[]> | undefined;
+
+export async function getTools(): Promise<ToolDefinition[]> {
+  if (!serverTools) {
+    serverTools = requestServerTools().catch((e) => {
+      console.error("[Tools] failed to fetch server tools", e);
+      serverTools = undefined;
+      return [];
+    });
+  }
+
+  return CLIENT_TOOLS.map((tool) => tool.definition).concat(await serverTools);
+}
+
+// errors are returned as the result, so that the model can react to them
+export async function runToolCall(call: ToolCall) {
+  const { name, arguments: args } = call.function;
+  const clientTool = CLIENT_TOOLS.find(
+    (tool) => tool.definition.function.name === name,
+  );
+
+  try {
+    if (clientTool) {
+      return await clientTool.run(JSON.parse(args || "{}"));
+    }
+    return await requestToolCall(name, args);
+  } catch (e) {
+    console.error("[Tools] ", name, e);
+    return `Error: ${e instanceof Error ? e.message : String(e)}`;
+  }
+}
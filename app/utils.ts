@@ -26,12 +26,17 @@ export async function copyToClipboard(text: string) {
   }
 }
 
-export function downloadAs(text: string, filename: string) {
-  const element = document.createElement("a");
-  element.setAttribute(
-    "href",
-    "data:text/plain;charset=utf-8," + encodeURIComponent(text),
+// a blob url, data urls of large backups are cut off by some browsers
+export function downloadAs(
+  content: string | Blob,
+  filename: string,
+  type = "text/plain;charset=utf-8",
+) {
+  const url = URL.createObjectURL(
+    typeof content === "string" ? new Blob([content], { type }) : content,
   );
+  const element = document.createElement("a");
+  element.setAttribute("href", url);
   element.setAttribute("download", filename);
 
   element.style.display = "none";
@@ -40,6 +45,8 @@ export function downloadAs(text: string, filename: string) {
   element.click();
 
   document.body.removeChild(element);
+  // revoked once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
 export function isIOS() {
@@ -91,3 +98,36 @@ export function getCurrentVersion() {
 export function getEmojiUrl(unified: string, style: EmojiStyle) {
   return `https://cdn.staticfile.org/emoji-datasource-apple/14.0.0/img/${style}/64/${unified}.png`;
 }
+
+// Downscales an image to fit into maxSize x maxSize and re-encodes it as jpeg,
+// which keeps vision requests and the persisted chats small.
+export function compressImage(file: Blob, maxSize = 1024): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        return reject(Error("canvas is not supported"));
+      }
+      // jpeg has no alpha channel, keep transparent areas white
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.85));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(Error("failed to load image"));
+    };
+
+    image.src = url;
+  });
+}
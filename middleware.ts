@@ -1,28 +1,49 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ACCESS_CODES } from "./app/api/access";
+import { getSession, isOidcEnabled, USER_ID_HEADER } from "./app/api/auth";
 import md5 from "spark-md5";
 
 export const config = {
-  matcher: ["/api/openai", "/api/chat-stream"],
+  matcher: [
+    "/api/openai",
+    "/api/chat-stream",
+    "/api/usage",
+    "/api/tools",
+    "/api/sessions",
+  ],
 };
 
-export function middleware(req: NextRequest) {
+export async function middleware(req: NextRequest) {
   const accessCode = req.headers.get("access-code");
   const token = req.headers.get("token");
   const hashedCode = md5.hash(accessCode ?? "").trim();
+  const session = await getSession(req);
 
-  console.log("[Auth] allowed hashed codes: ", [...ACCESS_CODES]);
-  console.log("[Auth] got access code:", accessCode);
-  console.log("[Auth] hashed access code:", hashedCode);
+  // the user id is only ever set here
+  req.headers.delete(USER_ID_HEADER);
 
+  // Signed in users are identified by the OIDC session, the shared access
+  // codes stay available as a fallback. The token header is not verified
+  // here, the upstream is called with the server credentials either way, so
+  // it neither passes the gate nor makes a quota identity of its own.
+  let userId: string | undefined;
+  if (session) {
+    userId = session.sub;
+  } else if (ACCESS_CODES.size > 0 && ACCESS_CODES.has(hashedCode)) {
+    userId = `code:${hashedCode.slice(0, 8)}`;
+  } else if (!isOidcEnabled() && ACCESS_CODES.size === 0) {
+    userId = "anonymous";
+  }
 
-  //Use access code to protect the connection
-  if (ACCESS_CODES.size > 0 && !ACCESS_CODES.has(hashedCode) && !token) {
+  if (!userId) {
     return NextResponse.json(
       {
         error: true,
-        needAccessCode: true,
-        msg: "Please go settings page and fill your access code.",
+        needAccessCode: ACCESS_CODES.size > 0,
+        needLogin: isOidcEnabled(),
+        msg: isOidcEnabled()
+          ? "Please sign in first."
+          : "Please go settings page and fill your access code.",
       },
       {
         status: 401,
@@ -30,8 +51,12 @@ export function middleware(req: NextRequest) {
     );
   }
 
-  // inject api key
-  if (!token) {
+  console.log("[Auth] user:", userId);
+  req.headers.set(USER_ID_HEADER, userId);
+
+  // inject api key, not needed when the proxy authenticates with Entra ID
+  const authMode = process.env.AZURE_OPENAI_AUTH_MODE ?? "api-key";
+  if (!token && authMode === "api-key") {
     const apiKey = process.env.OPENAI_API_KEY;
     if (apiKey) {
       console.log("[Auth] set system token");
@@ -47,7 +72,7 @@ export function middleware(req: NextRequest) {
         },
       );
     }
-  } else {
+  } else if (token) {
     console.log("[Auth] set user token");
   }
 
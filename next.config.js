@@ -10,6 +10,13 @@ const nextConfig = {
       use: ["@svgr/webpack"],
     }); // 针对 SVG 的处理规则
 
+    // pdf.js requires these in Node only, the documents are read in the browser
+    config.resolve.alias = {
+      ...config.resolve.alias,
+      canvas: false,
+      encoding: false,
+    };
+
     return config;
   }
 };